@@ -0,0 +1,41 @@
+import 'dotenv/config';
+import { webhookAddress } from '../google/calendarWatch';
+import { getWatchChannel, listUserWatchChannels } from '../store/watchChannelStore';
+
+// Stand-in for Google's push sender: posts the same headers Google would for a stored channel.
+// Usage: npm run webhook:send -- <channelId | teamId:userId> [resourceState]
+async function main() {
+  const [target, resourceState = 'exists'] = process.argv.slice(2);
+  if (!target) {
+    throw new Error('Usage: webhook:send <channelId | teamId:userId> [resourceState]');
+  }
+
+  const [teamId, userId] = target.split(':');
+  const channel = userId
+    ? (await listUserWatchChannels(teamId, userId))[0]
+    : await getWatchChannel(target);
+  if (!channel) {
+    throw new Error(`No watch channel found for ${target}`);
+  }
+
+  const port = Number(process.env.PORT || 3000);
+  const baseUrl = process.env.APP_BASE_URL || `http://localhost:${port}`;
+  const url = webhookAddress(baseUrl);
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'X-Goog-Channel-ID': channel.channelId,
+      'X-Goog-Channel-Token': channel.token,
+      'X-Goog-Channel-Expiration': new Date(channel.expiration).toUTCString(),
+      'X-Goog-Resource-ID': channel.resourceId,
+      'X-Goog-Resource-State': resourceState,
+      'X-Goog-Message-Number': String(Date.now())
+    }
+  });
+  console.log(`${url} -> ${response.status}`);
+}
+
+main().catch((err) => {
+  console.error(err);
+  process.exit(1);
+});
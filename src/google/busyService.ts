@@ -0,0 +1,206 @@
+import { DateTime } from 'luxon';
+import { getCalendarClient } from './oauth';
+import { TokenStoreValue } from '../store/tokenStore';
+import { BusyEventRules, CalendarEventLike, collectBusyIntervals } from '../utils/busyEvents';
+import { parseBusyInterval } from '../utils/intervals';
+
+type Interval = { start: DateTime; end: DateTime };
+
+export type UserBusy = { timed: Interval[]; allDay: Interval[] };
+
+export type BusyRequest = { userId: string; token: TokenStoreValue; userZone: string };
+
+export type BusyRange = { timeMin: DateTime; timeMax: DateTime; zone: string; rules: BusyEventRules };
+
+// freebusy.query accepts at most 50 calendars per request.
+const FREEBUSY_BATCH_SIZE = 50;
+const CACHE_TTL_MS = Number(process.env.GCAL_BUSY_CACHE_TTL_MS || 60_000);
+const MAX_CONCURRENCY = Number(process.env.GCAL_BUSY_CONCURRENCY || 4);
+const MAX_CACHE_ENTRIES = 500;
+
+const busyCache = new Map<string, { expiresAt: number; value: Promise<UserBusy> }>();
+
+export function busyCalendarIdsOf(token: TokenStoreValue) {
+  return token.busyCalendarIds?.length ? token.busyCalendarIds : ['primary'];
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, fn: (item: T) => Promise<R>): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index]);
+    }
+  });
+  await Promise.all(workers);
+  return results;
+}
+
+export async function queryFreeBusy(
+  baseUrl: string,
+  refreshToken: string,
+  timeMin: DateTime,
+  timeMax: DateTime,
+  zone: string,
+  calendarIds: string[]
+): Promise<Interval[]> {
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const intervals: Interval[] = [];
+  for (let offset = 0; offset < calendarIds.length; offset += FREEBUSY_BATCH_SIZE) {
+    const batch = calendarIds.slice(offset, offset + FREEBUSY_BATCH_SIZE);
+    const result = await calendar.freebusy.query({
+      requestBody: {
+        timeMin: timeMin.toISO(),
+        timeMax: timeMax.toISO(),
+        timeZone: zone,
+        items: batch.map((id) => ({ id }))
+      }
+    });
+    for (const interval of batch.flatMap((id) => result.data.calendars?.[id]?.busy ?? [])) {
+      if (!interval.start || !interval.end) continue;
+      const parsed = parseBusyInterval(interval.start, interval.end, zone);
+      if (parsed.start.isValid && parsed.end.isValid) {
+        intervals.push({ start: parsed.start, end: parsed.end });
+      }
+    }
+  }
+  return intervals;
+}
+
+// Returns null when the calendar is shared as free/busy only and its events cannot be read.
+async function listCalendarEvents(
+  baseUrl: string,
+  refreshToken: string,
+  calendarId: string,
+  range: BusyRange
+): Promise<CalendarEventLike[] | null> {
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const events: CalendarEventLike[] = [];
+  try {
+    let pageToken: string | undefined;
+    do {
+      const result = await calendar.events.list({
+        calendarId,
+        timeMin: range.timeMin.toISO()!,
+        timeMax: range.timeMax.toISO()!,
+        singleEvents: true,
+        maxResults: 2500,
+        pageToken
+      });
+      events.push(...(result.data.items ?? []));
+      pageToken = result.data.nextPageToken ?? undefined;
+    } while (pageToken);
+  } catch (error: any) {
+    const status = error?.response?.status ?? error?.code;
+    if (status === 403 || status === 404) return null;
+    throw error;
+  }
+  return events;
+}
+
+// freebusy.query already skips transparent and declined events and counts tentative and unanswered
+// ones, so with these rules it gives the same answer in one request per 50 calendars.
+function matchesFreeBusySemantics(rules: BusyEventRules) {
+  return !rules.transparentAsBusy && !rules.declinedAsBusy && rules.tentativeAsBusy && rules.needsActionAsBusy;
+}
+
+// freebusy.query does not say which intervals came from all-day events; whole days in the owner's zone are
+// treated as all-day so that padding is not applied to them.
+function isWholeDays(interval: Interval, userZone: string) {
+  const start = interval.start.setZone(userZone);
+  const end = interval.end.setZone(userZone);
+  return +start === +start.startOf('day') && +end === +end.startOf('day') && end > start;
+}
+
+async function loadUserBusy(baseUrl: string, request: BusyRequest, range: BusyRange): Promise<UserBusy> {
+  const calendarIds = busyCalendarIdsOf(request.token);
+  if (matchesFreeBusySemantics(range.rules)) {
+    // freebusy clips blocks to the query window, so the query is widened to whole days in the owner's zone;
+    // otherwise an all-day event on the first or last day would start or end mid-day and look timed.
+    const dayMin = range.timeMin.setZone(request.userZone).startOf('day');
+    const lastDay = range.timeMax.setZone(request.userZone).startOf('day');
+    const dayMax = +lastDay === +range.timeMax ? lastDay : lastDay.plus({ days: 1 });
+    const intervals = await queryFreeBusy(
+      baseUrl,
+      request.token.refreshToken,
+      dayMin,
+      dayMax,
+      range.zone,
+      calendarIds
+    );
+    return {
+      timed: intervals.filter((interval) => !isWholeDays(interval, request.userZone)),
+      allDay: intervals.filter((interval) => isWholeDays(interval, request.userZone))
+    };
+  }
+
+  // Custom rules need each event's transparency and response status, which only events.list returns.
+  const listed = await mapWithConcurrency(calendarIds, MAX_CONCURRENCY, (calendarId) =>
+    listCalendarEvents(baseUrl, request.token.refreshToken, calendarId, range)
+  );
+
+  const busy: UserBusy = { timed: [], allDay: [] };
+  const freeBusyOnly: string[] = [];
+  listed.forEach((events, index) => {
+    if (!events) {
+      freeBusyOnly.push(calendarIds[index]);
+      return;
+    }
+    const collected = collectBusyIntervals(events, range.rules, range.zone, request.userZone);
+    busy.timed.push(...collected.timed);
+    busy.allDay.push(...collected.allDay);
+  });
+  if (freeBusyOnly.length > 0) {
+    busy.timed.push(
+      ...(await queryFreeBusy(
+        baseUrl,
+        request.token.refreshToken,
+        range.timeMin,
+        range.timeMax,
+        range.zone,
+        freeBusyOnly
+      ))
+    );
+  }
+  return busy;
+}
+
+function cacheKey(request: BusyRequest, range: BusyRange) {
+  return [
+    request.userId,
+    busyCalendarIdsOf(request.token).join(','),
+    range.timeMin.toUTC().toISO(),
+    range.timeMax.toUTC().toISO(),
+    range.zone,
+    request.userZone,
+    JSON.stringify(range.rules)
+  ].join('|');
+}
+
+function getCachedUserBusy(baseUrl: string, request: BusyRequest, range: BusyRange): Promise<UserBusy> {
+  const now = Date.now();
+  const key = cacheKey(request, range);
+  const cached = busyCache.get(key);
+  if (cached && cached.expiresAt > now) return cached.value;
+
+  for (const [entryKey, entry] of busyCache) {
+    if (entry.expiresAt <= now || busyCache.size >= MAX_CACHE_ENTRIES) busyCache.delete(entryKey);
+  }
+  const value = loadUserBusy(baseUrl, request, range);
+  busyCache.set(key, { expiresAt: now + CACHE_TTL_MS, value });
+  // Failed lookups must not stick around for the whole TTL.
+  value.catch(() => busyCache.delete(key));
+  return value;
+}
+
+export async function fetchBusyForUsers(
+  baseUrl: string,
+  requests: BusyRequest[],
+  range: BusyRange
+): Promise<Map<string, UserBusy>> {
+  const results = await mapWithConcurrency(requests, MAX_CONCURRENCY, (request) =>
+    getCachedUserBusy(baseUrl, request, range)
+  );
+  return new Map(requests.map((request, index) => [request.userId, results[index]]));
+}
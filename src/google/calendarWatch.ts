@@ -0,0 +1,268 @@
+import crypto from 'node:crypto';
+import { calendar_v3 } from 'googleapis';
+import { DateTime } from 'luxon';
+import { getCalendarClient } from './oauth';
+import { getUserToken, listAllUserTokens } from '../store/tokenStore';
+import {
+  getWatchChannel,
+  listUserWatchChannels,
+  listWatchChannelsExpiringBefore,
+  listWatchedUsers,
+  removeWatchChannel,
+  saveWatchChannel,
+  updateSyncToken,
+  WatchChannel
+} from '../store/watchChannelStore';
+
+export type CalendarChange = { teamId: string; userId: string; event: calendar_v3.Schema$Event };
+
+type CalendarChangeListener = (change: CalendarChange) => Promise<void>;
+
+const WATCH_TTL_SECONDS = Number(process.env.GCAL_WATCH_TTL_SECONDS || 7 * 24 * 60 * 60);
+const RENEW_BEFORE_MS = 24 * 60 * 60 * 1000;
+const RENEW_CHECK_MINUTES = 60;
+const MAX_BACKFILL_PER_RUN = 10;
+// Google only delivers to https; channels on other addresses are kept locally for the stand-in sender.
+const LOCAL_RESOURCE_ID = 'local';
+
+const listeners: CalendarChangeListener[] = [];
+const syncQueue = new Map<string, Promise<void>>();
+
+function calendarIdOf() {
+  return process.env.GCAL_CALENDAR_ID || 'primary';
+}
+
+export function webhookAddress(baseUrl: string) {
+  return process.env.GCAL_WEBHOOK_URL || `${baseUrl}/google/webhook`;
+}
+
+export function addCalendarChangeListener(listener: CalendarChangeListener) {
+  listeners.push(listener);
+}
+
+// Pages through the whole change feed. Without a syncToken this is the baseline full sync.
+// tokenOnly skips the event bodies when only the resulting sync position is needed.
+async function listChanges(
+  calendar: calendar_v3.Calendar,
+  syncToken?: string,
+  tokenOnly = false
+): Promise<{ items: calendar_v3.Schema$Event[]; nextSyncToken: string }> {
+  const items: calendar_v3.Schema$Event[] = [];
+  let pageToken: string | undefined;
+  let nextSyncToken: string | undefined;
+  do {
+    const result = await calendar.events.list({
+      calendarId: calendarIdOf(),
+      singleEvents: true,
+      maxResults: 2500,
+      syncToken,
+      pageToken,
+      fields: tokenOnly ? 'nextPageToken,nextSyncToken' : undefined
+    });
+    if (!tokenOnly) {
+      items.push(...(result.data.items ?? []));
+    }
+    pageToken = result.data.nextPageToken ?? undefined;
+    nextSyncToken = result.data.nextSyncToken ?? undefined;
+  } while (pageToken);
+  if (!nextSyncToken) {
+    throw new Error('Calendar change feed returned no sync token');
+  }
+  return { items, nextSyncToken };
+}
+
+export async function startWatch(
+  baseUrl: string,
+  teamId: string,
+  userId: string,
+  refreshToken: string,
+  syncToken?: string
+): Promise<WatchChannel> {
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const channelId = crypto.randomUUID();
+  const token = crypto.randomBytes(24).toString('hex');
+  const address = webhookAddress(baseUrl);
+
+  let resourceId = LOCAL_RESOURCE_ID;
+  let expiration = new Date(Date.now() + WATCH_TTL_SECONDS * 1000).toISOString();
+  if (address.startsWith('https://')) {
+    const { data } = await calendar.events.watch({
+      calendarId: calendarIdOf(),
+      requestBody: {
+        id: channelId,
+        type: 'web_hook',
+        address,
+        token,
+        params: { ttl: String(WATCH_TTL_SECONDS) }
+      }
+    });
+    resourceId = data.resourceId ?? '';
+    if (data.expiration) {
+      expiration = new Date(Number(data.expiration)).toISOString();
+    }
+  }
+
+  const channel: WatchChannel = { channelId, teamId, userId, resourceId, token, expiration, syncToken };
+  try {
+    channel.syncToken ??= (await listChanges(calendar, undefined, true)).nextSyncToken;
+    await saveWatchChannel(channel);
+  } catch (error) {
+    // Without a saved row nothing would ever stop the channel Google just opened.
+    await stopGoogleChannel(baseUrl, channel, refreshToken);
+    throw error;
+  }
+  return channel;
+}
+
+async function stopGoogleChannel(baseUrl: string, channel: WatchChannel, refreshToken?: string) {
+  if (!refreshToken || channel.resourceId === LOCAL_RESOURCE_ID) return;
+  try {
+    const calendar = getCalendarClient(baseUrl, refreshToken);
+    await calendar.channels.stop({
+      requestBody: { id: channel.channelId, resourceId: channel.resourceId }
+    });
+  } catch (error) {
+    // The channel expires on its own; dropping the row is what stops us acting on it.
+    console.warn('Failed to stop watch channel', channel.channelId, error);
+  }
+}
+
+export async function stopWatch(baseUrl: string, channel: WatchChannel, refreshToken?: string) {
+  await stopGoogleChannel(baseUrl, channel, refreshToken);
+  await removeWatchChannel(channel.channelId);
+}
+
+export async function stopUserWatches(baseUrl: string, teamId: string, userId: string, refreshToken?: string) {
+  const channels = await listUserWatchChannels(teamId, userId);
+  for (const channel of channels) {
+    await stopWatch(baseUrl, channel, refreshToken);
+  }
+}
+
+// Replaces any existing channels so a reconnect never leaves two feeds for one user.
+export async function restartUserWatch(baseUrl: string, teamId: string, userId: string, refreshToken: string) {
+  await stopUserWatches(baseUrl, teamId, userId, refreshToken);
+  return startWatch(baseUrl, teamId, userId, refreshToken);
+}
+
+async function syncChannel(baseUrl: string, channelId: string) {
+  const channel = await getWatchChannel(channelId);
+  if (!channel) return;
+  const token = await getUserToken(channel.teamId, channel.userId);
+  if (!token?.refreshToken) {
+    await removeWatchChannel(channel.channelId);
+    return;
+  }
+
+  const calendar = getCalendarClient(baseUrl, token.refreshToken);
+  let changes;
+  try {
+    changes = await listChanges(calendar, channel.syncToken);
+  } catch (error: any) {
+    const status = error?.response?.status ?? error?.code;
+    if (status !== 410) throw error;
+    // Expired sync token: take a fresh baseline. Changes in the gap are not replayed.
+    const { nextSyncToken } = await listChanges(calendar, undefined, true);
+    await updateSyncToken(channel.channelId, nextSyncToken);
+    return;
+  }
+  await updateSyncToken(channel.channelId, changes.nextSyncToken);
+
+  for (const event of changes.items) {
+    for (const listener of listeners) {
+      try {
+        await listener({ teamId: channel.teamId, userId: channel.userId, event });
+      } catch (error) {
+        console.error('Calendar change listener failed', event.id, error);
+      }
+    }
+  }
+}
+
+// Notifications for one channel are processed in order so a syncToken is never used twice.
+// The returned promise rejects when this sync fails; the queue itself keeps going.
+function enqueueSync(baseUrl: string, channelId: string) {
+  const previous = syncQueue.get(channelId) ?? Promise.resolve();
+  const next = previous.then(() => syncChannel(baseUrl, channelId));
+  const settled = next
+    .catch(() => undefined)
+    .finally(() => {
+      if (syncQueue.get(channelId) === settled) syncQueue.delete(channelId);
+    });
+  syncQueue.set(channelId, settled);
+  return next;
+}
+
+// Returns the HTTP status for the webhook response. The sync finishes before responding, since
+// serverless hosts may stop work left running afterwards; a failure answers 500 so Google retries.
+export async function receivePushNotification(
+  baseUrl: string,
+  headers: Record<string, string | string[] | undefined>
+): Promise<number> {
+  const header = (name: string) => {
+    const value = headers[name];
+    return Array.isArray(value) ? value[0] : value;
+  };
+  const channelId = header('x-goog-channel-id');
+  const resourceState = header('x-goog-resource-state');
+  if (!channelId || !resourceState) return 400;
+
+  const channel = await getWatchChannel(channelId);
+  // Unknown channels were replaced or disconnected; acknowledge so Google stops retrying.
+  if (!channel) return 200;
+  if (header('x-goog-channel-token') !== channel.token) return 403;
+  if (channel.resourceId !== LOCAL_RESOURCE_ID && header('x-goog-resource-id') !== channel.resourceId) {
+    return 403;
+  }
+
+  // "sync" only confirms the channel was created.
+  if (resourceState === 'sync') return 200;
+  try {
+    await enqueueSync(baseUrl, channelId);
+  } catch (error) {
+    console.error('Calendar sync failed', channelId, error);
+    return 500;
+  }
+  return 200;
+}
+
+// Runs from the shared scheduler; within one process checks are spaced at least RENEW_CHECK_MINUTES apart.
+let lastRenewedAt: DateTime | undefined;
+
+export async function renewWatchChannels(baseUrl: string, now: DateTime) {
+  if (lastRenewedAt && now < lastRenewedAt.plus({ minutes: RENEW_CHECK_MINUTES })) return;
+  lastRenewedAt = now;
+
+  const expiring = await listWatchChannelsExpiringBefore(new Date(now.toMillis() + RENEW_BEFORE_MS));
+  for (const channel of expiring) {
+    try {
+      const token = await getUserToken(channel.teamId, channel.userId);
+      if (!token?.refreshToken) {
+        await removeWatchChannel(channel.channelId);
+        continue;
+      }
+      // Stop the old channel first, then carry over its latest sync position: a notification it handled
+      // in the meantime has moved the row on. Changes made before the new channel opens are picked up
+      // by its first sync.
+      await stopGoogleChannel(baseUrl, channel, token.refreshToken);
+      const latest = await getWatchChannel(channel.channelId);
+      if (!latest) continue;
+      await startWatch(baseUrl, channel.teamId, channel.userId, token.refreshToken, latest.syncToken);
+      await removeWatchChannel(channel.channelId);
+    } catch (error) {
+      console.error('Failed to renew watch channel', channel.channelId, error);
+    }
+  }
+
+  // Users who connected before push sync existed (or whose first watch failed) have no channel yet.
+  // A few per run, since each new channel starts with a full sync of the calendar.
+  const watched = new Set((await listWatchedUsers()).map((user) => `${user.teamId}:${user.userId}`));
+  const unwatched = (await listAllUserTokens()).filter((user) => !watched.has(`${user.teamId}:${user.userId}`));
+  for (const user of unwatched.slice(0, MAX_BACKFILL_PER_RUN)) {
+    try {
+      await startWatch(baseUrl, user.teamId, user.userId, user.refreshToken);
+    } catch (error) {
+      console.error('Failed to start watch channel', user.userId, error);
+    }
+  }
+}
@@ -29,3 +29,18 @@ export async function fetchUserEmail(baseUrl: string, refreshToken: string): Pro
   const response = await oauth2Api.userinfo.get();
   return response.data.email ?? null;
 }
+
+export async function fetchCalendarList(
+  baseUrl: string,
+  refreshToken: string
+): Promise<Array<{ id: string; summary: string; primary: boolean }>> {
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const response = await calendar.calendarList.list({ minAccessRole: 'freeBusyReader' });
+  return (response.data.items ?? [])
+    .filter((item) => !!item.id)
+    .map((item) => ({
+      id: item.id!,
+      summary: item.summaryOverride || item.summary || item.id!,
+      primary: !!item.primary
+    }));
+}
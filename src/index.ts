@@ -4,38 +4,95 @@ import crypto from 'node:crypto';
 import { DateTime } from 'luxon';
 
 import { requireEnv } from './config/env';
-import { resolveColorId } from './config/colors';
-import { createOAuth2Client, fetchUserEmail, getCalendarClient, oauthScopes } from './google/oauth';
-import { getUserToken, listUserTokens, removeUserToken, setUserToken, updateUserEmail } from './store/tokenStore';
+import { colorNameFromId, resolveColorId } from './config/colors';
+import { createOAuth2Client, fetchCalendarList, fetchUserEmail, getCalendarClient, oauthScopes } from './google/oauth';
+import { busyCalendarIdsOf, BusyRange, BusyRequest, fetchBusyForUsers } from './google/busyService';
+import {
+  addCalendarChangeListener,
+  renewWatchChannels,
+  receivePushNotification,
+  restartUserWatch,
+  stopUserWatches
+} from './google/calendarWatch';
+import {
+  getUserToken,
+  listUserTokens,
+  removeUserToken,
+  setUserBusyCalendars,
+  setUserToken,
+  TokenStoreValue,
+  updateUserEmail
+} from './store/tokenStore';
 import { slackInstallationStore } from './store/slackInstallationStore';
+import { getWorkspaceSettings } from './store/workspaceSettingsStore';
+import { getUserPreferences, UserPreferences } from './store/userPreferencesStore';
 import {
+  describeDayFilter,
   formatTimeRange,
   isValidTimeRange,
+  parseBuffer,
   parseDate,
   parseDateRange,
   parseDuration,
+  describeReminders,
+  parseReminders,
   parseTime,
-  parseTimeRange
+  parseTimeRange,
+  Reminder,
+  restrictWeekdays
 } from './utils/parse';
 import {
   buildFreeIntervals,
-  findFirstAvailableSlot,
+  buildSlotStarts,
+  BusyPadding,
   formatIntervalsShort,
   listDays,
+  listUnavailableUsers,
   mergeBusyIntervals,
-  parseBusyInterval
+  overlapsAny,
+  padBusyIntervals,
+  splitByAvailability
 } from './utils/intervals';
+import { getHolidayName } from './utils/holidays';
+import { BusyEventRules } from './utils/busyEvents';
+import { buildOffHoursIntervals } from './utils/workingHours';
+import { rankCandidateSlots } from './utils/slotScoring';
 import {
+  buildRRule,
+  describeRecurrence,
+  expandOccurrences,
+  parseRecurrenceEnd,
+  RecurrenceRule,
+  recurrenceWeekdays
+} from './utils/recurrence';
+import {
+  buildCalendarSettingsView,
+  buildCancelView,
+  buildEditView,
+  buildEventListView,
   buildFormView,
   buildPreviewView,
   buildLoadingView,
   buildResultView,
   buildShareView,
+  CancelPayload,
+  EditPayload,
+  EventListPayload,
+  parseEditState,
   parseFormState,
+  sendUpdatesOptions,
   GcalFormMode,
   GcalRequestMode,
   PreviewPayload
 } from './slack/ui';
+import { runSettingsCommand } from './slack/settingsCommand';
+import { extractMeetUrl, formatEventListItem } from './slack/eventList';
+import { isAuthorizedCronRequest, registerJob, runScheduledJobs, startScheduler } from './scheduler/scheduler';
+import { sendDueAgendaDigests } from './scheduler/agendaDigest';
+import { sendDueMeetingReminders } from './scheduler/meetingReminders';
+import { statusSyncUserScopes, syncSlackStatuses } from './scheduler/statusSync';
+import { pollRsvps, resolveBotToken } from './slack/rsvpTracker';
+import { getTrackedEvent, removeTrackedEvent, trackEvent, updateTrackedEvent } from './store/trackedEventStore';
 
 const sharedRequestMap = new Map<
   string,
@@ -43,15 +100,42 @@ const sharedRequestMap = new Map<
     teamId: string;
     requesterId: string;
     attendeeIds: string[];
+    optionalAttendeeIds?: string[];
     title: string;
     durationMinutes: number;
     slotOptions: Array<{ label: string; value: string }>;
     baseBlocks: any[];
+    channelId: string;
+    messageTs: string;
     eventId?: string;
     selectedLabel?: string;
+    addMeet?: boolean;
+    meetUrl?: string;
+    location?: string;
+    description?: string;
+    reminders?: Reminder[];
   }
 >();
 
+// Asks Google to attach a new Meet conference; requires conferenceDataVersion: 1 on the insert.
+function buildMeetConferenceData() {
+  return {
+    createRequest: {
+      requestId: crypto.randomUUID(),
+      conferenceSolutionKey: { type: 'hangoutsMeet' }
+    }
+  };
+}
+
+function buildEventDetailLines(location?: string, description?: string, reminders?: Reminder[]) {
+  const lines: string[] = [];
+  if (location) lines.push(`場所: ${location}`);
+  if (reminders) lines.push(`リマインダー: ${describeReminders(reminders)}`);
+  // Section text is capped at 3000 characters, so long agendas are shortened in the preview only.
+  if (description) lines.push(`説明:\n${description.length > 500 ? `${description.slice(0, 500)}…` : description}`);
+  return lines;
+}
+
 async function buildAttendeeOptions(
   client: any,
   teamId: string,
@@ -82,6 +166,139 @@ async function buildAttendeeOptions(
   return results;
 }
 
+const EDITABLE_EVENT_DAYS = 14;
+// Keeps one list page well under Slack's 100-block modal limit (a header per day plus one section per event).
+const LIST_PAGE_SIZE = 20;
+
+async function loadEventListPage(baseUrl: string, refreshToken: string, payload: EventListPayload) {
+  const zone = payload.timeZone;
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const result = await calendar.events.list({
+    calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+    timeMin: payload.timeMin,
+    timeMax: payload.timeMax,
+    maxResults: LIST_PAGE_SIZE,
+    singleEvents: true,
+    orderBy: 'startTime',
+    pageToken: payload.pageTokens[payload.page] || undefined
+  });
+
+  const rangeStart = DateTime.fromISO(payload.timeMin, { zone }).startOf('day');
+  const groups: Array<{ label: string; items: Array<{ text: string; eventId?: string }> }> = [];
+  for (const event of result.data.items ?? []) {
+    const startIso = event.start?.dateTime || event.start?.date;
+    if (!startIso) continue;
+    const start = event.start?.date
+      ? DateTime.fromISO(event.start.date, { zone })
+      : DateTime.fromISO(startIso, { zone });
+    // Events already running when the range starts are listed under its first day.
+    const day = start < rangeStart ? rangeStart : start.startOf('day');
+    const holidayName = getHolidayName(day);
+    const label = `${day.setLocale('ja').toFormat('M/d(ccc)')}${holidayName ? ` ${holidayName}` : ''}`;
+    if (groups[groups.length - 1]?.label !== label) {
+      groups.push({ label, items: [] });
+    }
+    groups[groups.length - 1].items.push({
+      text: formatEventListItem(event, zone),
+      // Only the organizer can cancel for everyone.
+      eventId: event.organizer?.self ? event.id ?? undefined : undefined
+    });
+  }
+  return { groups, nextPageToken: result.data.nextPageToken ?? undefined };
+}
+
+// Upcoming timed events on the requester's calendar, loaded like list mode.
+async function buildEventOptions(baseUrl: string, refreshToken: string, zone: string) {
+  const calendar = getCalendarClient(baseUrl, refreshToken);
+  const now = DateTime.now().setZone(zone);
+  const result = await calendar.events.list({
+    calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+    timeMin: now.toISO()!,
+    timeMax: now.plus({ days: EDITABLE_EVENT_DAYS }).toISO()!,
+    maxResults: 100,
+    singleEvents: true,
+    orderBy: 'startTime'
+  });
+  return (result.data.items ?? [])
+    .filter((event) => event.id && event.start?.dateTime)
+    .map((event) => {
+      const start = DateTime.fromISO(event.start!.dateTime!, { zone });
+      return {
+        label: `${start.setLocale('ja').toFormat('M/d(ccc) HH:mm')} ${event.summary ?? '(タイトルなし)'}`.slice(0, 75),
+        value: event.id!
+      };
+    });
+}
+
+async function resolveUserNames(client: any, userIds: string[]) {
+  const names = new Map<string, string>();
+  for (const userId of userIds) {
+    let label = userId;
+    try {
+      const info = await client.users.info({ user: userId });
+      if (info.ok && info.user) {
+        const profile: any = info.user.profile ?? {};
+        label = profile.display_name || profile.real_name || userId;
+      }
+    } catch {
+      // ignore if scope missing
+    }
+    names.set(userId, label);
+  }
+  return names;
+}
+
+async function collectAttendeeEmails(
+  baseUrl: string,
+  teamId: string,
+  requiredIds: string[],
+  optionalIds: string[] = []
+) {
+  const attendees: Array<{ email: string; optional?: boolean }> = [];
+  const missing: string[] = [];
+  const entries: Array<[string, boolean]> = [
+    ...requiredIds.map((id): [string, boolean] => [id, false]),
+    ...optionalIds.map((id): [string, boolean] => [id, true])
+  ];
+  for (const [userId, optional] of entries) {
+    const tokenInfo = await getUserToken(teamId, userId);
+    if (!tokenInfo?.refreshToken) {
+      missing.push(userId);
+      continue;
+    }
+    let email = tokenInfo.email;
+    if (!email) {
+      try {
+        email = (await fetchUserEmail(baseUrl, tokenInfo.refreshToken)) ?? undefined;
+        if (email) {
+          await updateUserEmail(teamId, userId, email);
+        }
+      } catch (err) {
+        console.warn('Failed to fetch email for attendee', err);
+      }
+    }
+    if (!email) {
+      missing.push(userId);
+      continue;
+    }
+    attendees.push(optional ? { email, optional: true } : { email });
+  }
+  return { attendees, missing };
+}
+
+function formatUnavailable(unavailable: string[], names: Map<string, string>) {
+  return unavailable.length > 0 ? ` (不可: ${unavailable.map((id) => names.get(id) ?? id).join(', ')})` : '';
+}
+
+// Slack caps plain_text option text at 75 characters, so option labels only carry the count;
+// the names are listed in the surrounding text instead.
+const MAX_OPTION_TEXT_LENGTH = 75;
+
+function buildOptionLabel(base: string, unavailable: string[]) {
+  const label = `${base}${unavailable.length > 0 ? ` (不可${unavailable.length}人)` : ''}`;
+  return label.length > MAX_OPTION_TEXT_LENGTH ? `${label.slice(0, MAX_OPTION_TEXT_LENGTH - 1)}…` : label;
+}
+
 function resolveTeamId(payload: any, context?: any) {
   return (
     context?.teamId ||
@@ -96,14 +313,23 @@ function resolveTeamId(payload: any, context?: any) {
 function buildShareMessageBlocks(
   baseBlocks: any[],
   slotOptions: Array<{ label: string; value: string }>,
-  selectedLabel?: string
+  state: { selectedLabel?: string; cancelled?: boolean; meetUrl?: string } = {}
 ) {
+  const { selectedLabel, cancelled, meetUrl } = state;
   const blocks = [...baseBlocks];
   blocks.push({ type: 'divider' });
-  if (selectedLabel) {
+  if (cancelled) {
+    blocks.push({
+      type: 'section',
+      text: { type: 'mrkdwn', text: `:x: 取消済み: ~${selectedLabel ?? '予定'}~` }
+    });
+  } else if (selectedLabel) {
     blocks.push({
       type: 'section',
-      text: { type: 'mrkdwn', text: `送信済み: *${selectedLabel}*` }
+      text: {
+        type: 'mrkdwn',
+        text: `送信済み: *${selectedLabel}*${meetUrl ? `\n<${meetUrl}|:video_camera: Meet に参加>` : ''}`
+      }
     });
     blocks.push({
       type: 'actions',
@@ -135,6 +361,78 @@ function buildShareMessageBlocks(
   return blocks;
 }
 
+const RECURRENCE_PREVIEW_COUNT = 5;
+const REQUEST_CANDIDATE_COUNT = 5;
+// Slack static_select accepts at most 100 options.
+const MAX_SLOT_OPTIONS = 100;
+
+// Busy time per user in the search zone: padded timed events, whole all-day events and off-hours.
+async function buildBusyByUser(
+  baseUrl: string,
+  tokens: Map<string, TokenStoreValue>,
+  preferencesFor: (userId: string) => Promise<UserPreferences>,
+  defaultZone: string,
+  range: BusyRange,
+  padding: BusyPadding,
+  overallStart: DateTime,
+  overallEnd: DateTime
+) {
+  const userIds = [...tokens.keys()];
+  const preferences = await Promise.all(userIds.map((userId) => preferencesFor(userId)));
+  const requests = userIds.map((userId, index) => ({
+    userId,
+    token: tokens.get(userId)!,
+    userZone: preferences[index].timezone ?? defaultZone
+  }));
+  const fetched = await fetchBusyForUsers(baseUrl, requests, range);
+
+  const busyByUser = new Map<string, Array<{ start: DateTime; end: DateTime }>>();
+  requests.forEach((request, index) => {
+    const busy = fetched.get(request.userId)!;
+    // All-day events block the whole day as-is; padding only applies to timed events.
+    busyByUser.set(request.userId, [
+      ...padBusyIntervals(busy.timed, padding),
+      ...busy.allDay,
+      ...buildOffHoursIntervals(preferences[index].workingHours, request.userZone, overallStart, overallEnd)
+    ]);
+  });
+  return busyByUser;
+}
+
+async function buildRecurrencePreviewLines(
+  baseUrl: string,
+  request: BusyRequest,
+  rules: BusyEventRules,
+  rule: RecurrenceRule,
+  start: DateTime,
+  durationMinutes: number,
+  zone: string
+) {
+  const occurrences = expandOccurrences(rule, start, RECURRENCE_PREVIEW_COUNT);
+  const lines = [`繰り返し: ${describeRecurrence(rule, start)}`];
+  if (occurrences.length === 0) return lines;
+
+  const lastEnd = occurrences[occurrences.length - 1].plus({ minutes: durationMinutes });
+  const fetched = await fetchBusyForUsers(baseUrl, [request], {
+    timeMin: occurrences[0],
+    timeMax: lastEnd,
+    zone,
+    rules
+  });
+  const userBusy = fetched.get(request.userId)!;
+  const busy = [...userBusy.timed, ...userBusy.allDay];
+  lines.push(`直近${occurrences.length}回:`);
+  for (const occurrence of occurrences) {
+    const conflict = overlapsAny({ start: occurrence, end: occurrence.plus({ minutes: durationMinutes }) }, busy);
+    const holidayName = getHolidayName(occurrence);
+    const flags = [conflict ? ':warning: 予定あり' : '', holidayName ? `:warning: 祝日 (${holidayName})` : '']
+      .filter(Boolean)
+      .join(' ');
+    lines.push(`- ${occurrence.setLocale('ja').toFormat('M/d(ccc) HH:mm')}${flags ? ` ${flags}` : ''}`);
+  }
+  return lines;
+}
+
 function findSharedRequestKey(teamId: string, channelId: string, messageTs: string) {
   const exact = `${teamId}:${channelId}:${messageTs}`;
   if (sharedRequestMap.has(exact)) return exact;
@@ -160,13 +458,33 @@ async function main() {
     receiverOptions.installationStore = slackInstallationStore;
     receiverOptions.installerOptions = {
       installPath: '/slack/install',
-      redirectUriPath: '/slack/oauth_redirect'
+      redirectUriPath: '/slack/oauth_redirect',
+      userScopes: statusSyncUserScopes
     };
   }
 
   const receiver = new ExpressReceiver(receiverOptions);
   receiver.app.get('/health', (_req, res) => res.status(200).send('ok'));
 
+  // Vercel Cron entry point; long-running servers tick the same jobs in-process.
+  receiver.app.get('/cron/scheduler', async (req, res) => {
+    if (!isAuthorizedCronRequest(req.headers.authorization)) {
+      res.status(401).send('Unauthorized.');
+      return;
+    }
+    res.status(200).json(await runScheduledJobs());
+  });
+
+  // Google push notifications carry everything in headers; the body is empty.
+  receiver.app.post('/google/webhook', async (req, res) => {
+    try {
+      res.status(await receivePushNotification(baseUrl, req.headers)).end();
+    } catch (err) {
+      console.error('Failed to handle calendar notification', err);
+      res.status(500).end();
+    }
+  });
+
   const appOptions: any = { receiver };
   if (botToken) {
     appOptions.token = botToken;
@@ -249,6 +567,11 @@ async function main() {
       }
 
       await setUserToken(stateInfo.teamId, stateInfo.userId, tokens.refresh_token, email);
+      try {
+        await restartUserWatch(baseUrl, stateInfo.teamId, stateInfo.userId, tokens.refresh_token);
+      } catch (err) {
+        console.warn('Failed to start calendar watch', err);
+      }
 
       if (stateInfo.viewId) {
         try {
@@ -305,6 +628,17 @@ async function main() {
       return;
     }
 
+    if (command.text?.trim()) {
+      try {
+        const message = await runSettingsCommand(teamId, command.user_id, command.text, baseUrl);
+        await respond({ response_type: 'ephemeral', text: message });
+      } catch (err) {
+        console.error('Failed to run /gcal subcommand', err);
+        await respond({ response_type: 'ephemeral', text: '設定の更新に失敗しました。' });
+      }
+      return;
+    }
+
     let viewId: string | undefined;
     try {
       const opened = await client.views.open({
@@ -365,6 +699,19 @@ async function main() {
     const next = { ...current, mode: selected ?? current.mode };
     const tokenInfo = await getUserToken(teamId, body.user.id);
     const attendeeOptions = await buildAttendeeOptions(client, teamId, body.user.id);
+    let eventOptions: Array<{ label: string; value: string }> | undefined;
+    if (next.mode === 'edit' && tokenInfo?.refreshToken) {
+      const preferences = await getUserPreferences(teamId, body.user.id);
+      try {
+        eventOptions = await buildEventOptions(
+          baseUrl,
+          tokenInfo.refreshToken,
+          preferences.timezone ?? (process.env.GCAL_TIMEZONE || 'UTC')
+        );
+      } catch (error) {
+        console.error('event list failed', error);
+      }
+    }
     await client.views.update({
       view_id: body.view.id,
       view: buildFormView(
@@ -374,7 +721,8 @@ async function main() {
         next,
         { connected: !!tokenInfo?.refreshToken, email: tokenInfo?.email },
         attendeeOptions,
-        body.view.id
+        body.view.id,
+        eventOptions
       ) as any
     });
   });
@@ -401,9 +749,34 @@ async function main() {
     });
   });
 
+  app.action('all_day_toggle', async ({ ack, body, client, context }: any) => {
+    await ack();
+    const teamId = resolveTeamId(body, context);
+    const current = parseFormState(body.view.state.values).data;
+    const next = { ...current, mode: 'create' as GcalFormMode };
+    const tokenInfo = await getUserToken(teamId, body.user.id);
+    const attendeeOptions = await buildAttendeeOptions(client, teamId, body.user.id);
+    await client.views.update({
+      view_id: body.view.id,
+      view: buildFormView(
+        body.user.id,
+        teamId,
+        baseUrl,
+        next,
+        { connected: !!tokenInfo?.refreshToken, email: tokenInfo?.email },
+        attendeeOptions,
+        body.view.id
+      ) as any
+    });
+  });
+
   app.action('gcal_disconnect', async ({ ack, body, client, context }: any) => {
     await ack();
     const teamId = resolveTeamId(body, context);
+    const tokenInfo = await getUserToken(teamId, body.user.id);
+    await stopUserWatches(baseUrl, teamId, body.user.id, tokenInfo?.refreshToken).catch((err) =>
+      console.warn('Failed to stop calendar watch', err)
+    );
     await removeUserToken(teamId, body.user.id);
     await client.views.update({
       view_id: body.view.id,
@@ -419,8 +792,43 @@ async function main() {
     });
   });
 
+  app.action('gcal_calendar_settings_open', async ({ ack, body, client, context }: any) => {
+    await ack();
+    const teamId = resolveTeamId(body, context);
+    const tokenInfo = await getUserToken(teamId, body.user.id);
+    if (!tokenInfo?.refreshToken) return;
+    try {
+      const calendars = await fetchCalendarList(baseUrl, tokenInfo.refreshToken);
+      await client.views.push({
+        trigger_id: body.trigger_id,
+        view: buildCalendarSettingsView(calendars, busyCalendarIdsOf(tokenInfo)) as any
+      });
+    } catch (error) {
+      console.error('calendar list failed', error);
+      await client.views.push({
+        trigger_id: body.trigger_id,
+        view: buildResultView('エラー', 'カレンダー一覧の取得に失敗しました。') as any
+      });
+    }
+  });
+
+  app.view('gcal_calendar_settings', async ({ ack, body, view, context }: any) => {
+    const selected: string[] = (
+      view.state.values.busy_calendars_block?.busy_calendars_select?.selected_options ?? []
+    ).map((opt: any) => opt.value);
+    if (selected.length === 0) {
+      await ack({
+        response_action: 'errors',
+        errors: { busy_calendars_block: 'カレンダーを1つ以上選択してください。' }
+      });
+      return;
+    }
+    await ack();
+    await setUserBusyCalendars(resolveTeamId(body, context), body.user.id, selected);
+  });
+
   app.view('gcal_form', async ({ ack, body, view, client, context }: any) => {
-    const zone = process.env.GCAL_TIMEZONE || 'UTC';
+    const defaultZone = process.env.GCAL_TIMEZONE || 'UTC';
     const { data, errors } = parseFormState(view.state.values);
     if (Object.keys(errors).length > 0) {
       await ack({ response_action: 'errors', errors });
@@ -432,11 +840,17 @@ async function main() {
       view: buildLoadingView('処理中', 'しばらくお待ちください...') as any
     });
 
-    const now = DateTime.now().setZone(zone);
     const requesterId = body.user.id;
     const viewId = body.view.id;
     const teamId = resolveTeamId(body, context);
-    const requesterToken = await getUserToken(teamId, requesterId);
+    const [requesterToken, requesterPreferences] = await Promise.all([
+      getUserToken(teamId, requesterId),
+      getUserPreferences(teamId, requesterId)
+    ]);
+    const zone = requesterPreferences.timezone ?? defaultZone;
+    const now = DateTime.now().setZone(zone);
+    const preferencesFor = (userId: string): Promise<UserPreferences> =>
+      userId === requesterId ? Promise.resolve(requesterPreferences) : getUserPreferences(teamId, userId);
     const connectUrl = `${baseUrl}/oauth/start?team=${encodeURIComponent(
       teamId
     )}&user=${encodeURIComponent(requesterId)}&view=${encodeURIComponent(viewId)}`;
@@ -453,10 +867,71 @@ async function main() {
     }
 
     try {
+      const workspaceSettings = await getWorkspaceSettings(teamId);
+      const padding = data.buffer
+        ? parseBuffer(data.buffer)
+        : { before: workspaceSettings.bufferBeforeMinutes, after: workspaceSettings.bufferAfterMinutes };
+      const reminders = data.reminders ? parseReminders(data.reminders) : undefined;
+      if (reminders === null) {
+        await client.views.update({
+          view_id: viewId,
+          view: buildResultView('入力エラー', 'リマインダーを確認してください。(例: 10分前 / メール 1日前、最大5件)') as any
+        });
+        return;
+      }
+      if (data.mode === 'create' && data.allDay) {
+        const dateRange = parseDateRange(data.dateRange!, now);
+        if (!dateRange || dateRange.filter) {
+          await client.views.update({
+            view_id: viewId,
+            view: buildResultView('入力エラー', '終日の予定は連続した期間で指定してください。(例: 3/10-3/12)') as any
+          });
+          return;
+        }
+
+        const dayCount = Math.round(dateRange.endDate.diff(dateRange.startDate, 'days').days) + 1;
+        const colorId = data.colorId ?? resolveColorId(process.env.GCAL_DEFAULT_COLOR ?? undefined);
+        const spanLabel =
+          dayCount === 1
+            ? dateRange.startDate.setLocale('ja').toFormat('yyyy-LL-dd(ccc)')
+            : `${dateRange.startDate.setLocale('ja').toFormat('yyyy-LL-dd(ccc)')}〜${dateRange.endDate
+                .setLocale('ja')
+                .toFormat('LL-dd(ccc)')}`;
+        const previewLines = [
+          `タイトル: ${data.title}`,
+          `期間: ${spanLabel} 終日 (${dayCount}日間)`,
+          colorId ? `色: ${colorId}` : '色: なし',
+          `Meet: ${data.addMeet ? '付ける' : 'なし'}`,
+          ...buildEventDetailLines(data.location, data.description, reminders)
+        ];
+
+        const metadata: PreviewPayload = {
+          kind: 'create',
+          teamId,
+          title: data.title!,
+          startISO: dateRange.startDate.toISO()!,
+          durationMinutes: dayCount * 24 * 60,
+          allDayRange: { startDate: dateRange.startDate.toISODate()!, endDate: dateRange.endDate.toISODate()! },
+          colorId,
+          timeZone: zone,
+          addMeet: data.addMeet,
+          location: data.location,
+          description: data.description,
+          reminders,
+          requesterId
+        };
+
+        await client.views.update({
+          view_id: viewId,
+          view: buildPreviewView('予定作成プレビュー', previewLines.join('\n'), metadata) as any
+        });
+        return;
+      }
+
       if (data.mode === 'create') {
         const date = parseDate(data.date!, now);
         const time = parseTime(data.time!);
-        const durationMinutes = parseDuration(data.duration!);
+        const durationMinutes = parseDuration(data.duration!, workspaceSettings.durationPresets);
         if (!date || !time || !durationMinutes) {
         await client.views.update({
           view_id: viewId,
@@ -474,16 +949,55 @@ async function main() {
           },
           { zone }
         );
+        if (recurrenceWeekdays(data.recurrence)?.includes(start.weekday) === false) {
+          await client.views.update({
+            view_id: viewId,
+            view: buildResultView('入力エラー', '平日の繰り返しは平日の日付から開始してください。') as any
+          });
+          return;
+        }
+
+        const recurrenceEnd = data.recurrence ? parseRecurrenceEnd(data.recurrenceEnd, now) : null;
+        if (data.recurrence && (!recurrenceEnd || (recurrenceEnd.untilDate && recurrenceEnd.untilDate < start.toISODate()!))) {
+          await client.views.update({
+            view_id: viewId,
+            view: buildResultView('入力エラー', '繰り返しの終了日/回数を確認してください。') as any
+          });
+          return;
+        }
+        const recurrence: RecurrenceRule | undefined = data.recurrence
+          ? { frequency: data.recurrence, ...recurrenceEnd }
+          : undefined;
 
         const colorId =
           data.colorId ?? resolveColorId(process.env.GCAL_DEFAULT_COLOR ?? undefined);
 
-        const previewBody = [
+        const previewLines = [
           `タイトル: ${data.title}`,
           `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})`,
           `時間: ${durationMinutes}分`,
-          colorId ? `色: ${colorId}` : '色: なし'
-        ].join('\n');
+          colorId ? `色: ${colorId}` : '色: なし',
+          `Meet: ${data.addMeet ? '付ける' : 'なし'}`,
+          ...buildEventDetailLines(data.location, data.description, reminders)
+        ];
+        const startHoliday = getHolidayName(start);
+        if (startHoliday) {
+          previewLines.push(`:warning: 開始日は祝日です (${startHoliday})`);
+        }
+        if (recurrence) {
+          previewLines.push(
+            ...(await buildRecurrencePreviewLines(
+              baseUrl,
+              { userId: requesterId, token: requesterToken!, userZone: zone },
+              workspaceSettings.busyEventRules,
+              recurrence,
+              start,
+              durationMinutes,
+              zone
+            ))
+          );
+        }
+        const previewBody = previewLines.join('\n');
 
         const metadata: PreviewPayload = {
           kind: 'create',
@@ -492,6 +1006,12 @@ async function main() {
           startISO: start.toISO()!,
           durationMinutes,
           colorId,
+          recurrence,
+          timeZone: zone,
+          addMeet: data.addMeet,
+          location: data.location,
+          description: data.description,
+          reminders,
           requesterId
         };
 
@@ -505,8 +1025,8 @@ async function main() {
       if (data.mode === 'free') {
         const dateRange = parseDateRange(data.dateRange!, now);
         const timeRange = parseTimeRange(data.timeRange!);
-        const durationMinutes = parseDuration(data.duration!);
-        if (!dateRange || !timeRange || !durationMinutes || !isValidTimeRange(timeRange)) {
+        const durationMinutes = parseDuration(data.duration!, workspaceSettings.durationPresets);
+        if (!dateRange || !timeRange || !durationMinutes || !padding || !isValidTimeRange(timeRange)) {
         await client.views.update({
           view_id: viewId,
           view: buildResultView('入力エラー', '入力内容を確認してください。') as any
@@ -514,14 +1034,16 @@ async function main() {
         return;
       }
 
+        const requiredIds = data.attendees ?? [];
+        const optionalIds = data.optionalAttendees ?? [];
         const missing: string[] = [];
-        const tokensByUser = new Map<string, string>();
-        for (const userId of data.attendees ?? []) {
+        const tokensByUser = new Map<string, TokenStoreValue>();
+        for (const userId of [...requiredIds, ...optionalIds]) {
           const tokenInfo = await getUserToken(teamId, userId);
           if (!tokenInfo?.refreshToken) {
             missing.push(userId);
           } else {
-            tokensByUser.set(userId, tokenInfo.refreshToken);
+            tokensByUser.set(userId, tokenInfo);
           }
         }
 
@@ -552,54 +1074,33 @@ async function main() {
         return;
       }
 
-        const busyIntervals: Array<{ start: DateTime; end: DateTime }> = [];
-        for (const refreshToken of tokensByUser.values()) {
-          const calendar = getCalendarClient(baseUrl, refreshToken);
-          const result = await calendar.freebusy.query({
-            requestBody: {
-              timeMin: overallStart.toISO(),
-              timeMax: overallEnd.toISO(),
-              timeZone: zone,
-              items: [{ id: 'primary' }]
-            }
-          });
-
-          const busy = result.data.calendars?.primary?.busy ?? [];
-          for (const interval of busy) {
-            if (!interval.start || !interval.end) continue;
-            // DEBUG_FREEBUSY logs disabled
-            const parsed = parseBusyInterval(interval.start, interval.end, zone);
-            const start = parsed.start;
-            const end = parsed.end;
-            if (start.isValid && end.isValid) {
-              busyIntervals.push({ start, end });
-            }
-          }
+        // Meetings just outside the range still push their padding into it.
+        const busyQueryStart = overallStart.minus({ minutes: padding.after });
+        const busyQueryEnd = overallEnd.plus({ minutes: padding.before });
+        const busyByUser = await buildBusyByUser(
+          baseUrl,
+          tokensByUser,
+          preferencesFor,
+          defaultZone,
+          { timeMin: busyQueryStart, timeMax: busyQueryEnd, zone, rules: workspaceSettings.busyEventRules },
+          padding,
+          overallStart,
+          overallEnd
+        );
 
-          // Supplement: treat all-day events as busy for the whole day
-          const allDayEvents = await calendar.events.list({
-            calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
-            timeMin: overallStart.toISO(),
-            timeMax: overallEnd.toISO(),
-            singleEvents: true,
-            orderBy: 'startTime'
-          } as any);
-          const items = (allDayEvents as any)?.data?.items ?? [];
-          for (const event of items) {
-            const startDate = event.start?.date;
-            const endDate = event.end?.date;
-            if (!startDate || !endDate) continue;
-            const parsed = parseBusyInterval(startDate, endDate, zone);
-            if (parsed.start.isValid && parsed.end.isValid) {
-              busyIntervals.push({ start: parsed.start, end: parsed.end });
-            }
-          }
-        }
+        const requiredBusy = requiredIds.flatMap((userId) => busyByUser.get(userId) ?? []);
+        const optionalBusy = new Map(optionalIds.map((userId) => [userId, busyByUser.get(userId) ?? []]));
+        const names = await resolveUserNames(client, optionalIds);
 
-        const days = listDays(dateRange.startDate, dateRange.endDate);
-        const slotOptions: Array<{ label: string; value: string }> = [];
+        const days = listDays(dateRange.startDate, dateRange.endDate, dateRange.filter);
+        const granularityMinutes = Number(data.granularity ?? '30');
+        const slotCandidates: Array<{ label: string; value: string; unavailableCount: number; startMillis: number }> = [];
         const dayBlocks = days.map((day) => {
-          const dayLabel = day.setLocale('ja').toFormat('M/d(ccc)');
+          const holidayName = getHolidayName(day);
+          const dayLabel = `${day.setLocale('ja').toFormat('M/d(ccc)')}${holidayName ? ` 祝:${holidayName}` : ''}`;
+          if (holidayName && !data.includeHolidays) {
+            return `${dayLabel}\n祝日のため除外`;
+          }
           const dayStart = day.set({
             hour: timeRange.start.hour,
             minute: timeRange.start.minute
@@ -608,24 +1109,57 @@ async function main() {
             hour: timeRange.end.hour,
             minute: timeRange.end.minute
           });
-          const mergedBusy = mergeBusyIntervals(busyIntervals, dayStart, dayEnd);
+          const mergedBusy = mergeBusyIntervals(requiredBusy, dayStart, dayEnd);
           const freeIntervals = buildFreeIntervals(dayStart, dayEnd, mergedBusy).filter((interval) => {
             return interval.end.diff(interval.start, 'minutes').minutes >= durationMinutes;
           });
-          const slots = formatIntervalsShort(freeIntervals).replace(/ - /g, '〜');
-          for (const interval of freeIntervals) {
-            if (slotOptions.length >= 25) break;
-            const label = `${dayLabel} ${interval.start.toFormat('HH:mm')}〜${interval.end.toFormat('HH:mm')}`;
-            const value = `${interval.start.toISO()}|${durationMinutes}`;
-            slotOptions.push({ label, value });
+          const slots =
+            optionalBusy.size > 0 && freeIntervals.length > 0
+              ? freeIntervals
+                  .flatMap((interval) => splitByAvailability(interval, optionalBusy))
+                  .map(
+                    (segment) =>
+                      `${segment.start.toFormat('HH:mm')}〜${segment.end.toFormat('HH:mm')}${formatUnavailable(segment.unavailable, names)}`
+                  )
+                  .join('\n')
+              : formatIntervalsShort(freeIntervals).replace(/ - /g, '〜');
+          const slotStarts =
+            granularityMinutes > 0
+              ? buildSlotStarts(freeIntervals, durationMinutes, granularityMinutes).map((start) => ({
+                  start,
+                  end: start.plus({ minutes: durationMinutes })
+                }))
+              : freeIntervals;
+          for (const slot of slotStarts) {
+            const unavailable = listUnavailableUsers(
+              { start: slot.start, end: slot.start.plus({ minutes: durationMinutes }) },
+              optionalBusy
+            );
+            const label = buildOptionLabel(
+              `${dayLabel} ${slot.start.toFormat('HH:mm')}〜${slot.end.toFormat('HH:mm')}`,
+              unavailable
+            );
+            const value = `${slot.start.toISO()}|${durationMinutes}`;
+            slotCandidates.push({ label, value, unavailableCount: unavailable.length, startMillis: slot.start.toMillis() });
           }
           return `${dayLabel}\n${slots}`;
         });
-
-        const attendeeLine = data.attendees && data.attendees.length > 0
-          ? `参加者：${data.attendees.map((id) => `<@${id}>`).join(' ')}`
-          : '';
-        const header = `空き時間（${dateRange.startDate.toFormat('M/d')}〜${dateRange.endDate.toFormat('M/d')} ${formatTimeRange(timeRange).replace('-', '〜')}）`;
+        // Slots that more optional attendees can make come first.
+        const slotOptions = slotCandidates
+          .sort((a, b) => a.unavailableCount - b.unavailableCount || a.startMillis - b.startMillis)
+          .slice(0, MAX_SLOT_OPTIONS)
+          .map(({ label, value }) => ({ label, value }));
+
+        const attendeeLine = [
+          requiredIds.length > 0 ? `参加者：${requiredIds.map((id) => `<@${id}>`).join(' ')}` : '',
+          optionalIds.length > 0 ? `任意参加：${optionalIds.map((id) => `<@${id}>`).join(' ')}` : ''
+        ]
+          .filter(Boolean)
+          .join('\n');
+        const filterLabel = describeDayFilter(dateRange.filter);
+        const paddingLabel =
+          padding.before > 0 || padding.after > 0 ? ` 余白 前${padding.before}分/後${padding.after}分` : '';
+        const header = `空き時間（${dateRange.startDate.toFormat('M/d')}〜${dateRange.endDate.toFormat('M/d')} ${formatTimeRange(timeRange).replace('-', '〜')}${filterLabel ? ` ${filterLabel}` : ''}${paddingLabel}）`;
         const availabilityLines = [header, ...dayBlocks];
         const availabilityText = availabilityLines.join('\n');
         const previewLines = [attendeeLine, '```', availabilityText, '```'].filter(Boolean);
@@ -637,7 +1171,8 @@ async function main() {
             kind: 'free',
             teamId,
             availabilityText,
-            attendeeIds: data.attendees ?? [],
+            attendeeIds: requiredIds,
+            optionalAttendeeIds: optionalIds,
             requesterId,
             durationMinutes,
             slotOptions
@@ -647,45 +1182,79 @@ async function main() {
       }
 
       if (data.mode === 'list') {
-        const calendar = getCalendarClient(baseUrl, requesterToken!.refreshToken);
         const dateRange = data.dateRange ? parseDateRange(data.dateRange, now) : null;
-        const timeMin = dateRange ? dateRange.startDate.toISO() : now.toISO();
-        const timeMax = dateRange ? dateRange.endDate.plus({ days: 1 }).toISO() : now.plus({ days: 7 }).toISO();
+        const listPayload: EventListPayload = {
+          teamId,
+          requesterId,
+          header: dateRange
+            ? `予定一覧（${dateRange.startDate.toFormat('M/d')}〜${dateRange.endDate.toFormat('M/d')}）`
+            : '予定一覧（直近7日）',
+          timeMin: dateRange ? dateRange.startDate.toISO()! : now.toISO()!,
+          timeMax: dateRange ? dateRange.endDate.plus({ days: 1 }).toISO()! : now.plus({ days: 7 }).toISO()!,
+          timeZone: zone,
+          page: 0,
+          pageTokens: ['']
+        };
+        const { groups, nextPageToken } = await loadEventListPage(
+          baseUrl,
+          requesterToken!.refreshToken,
+          listPayload
+        );
+        if (nextPageToken) listPayload.pageTokens.push(nextPageToken);
 
-        const result = await calendar.events.list({
+        await client.views.update({
+          view_id: viewId,
+          view: buildEventListView(listPayload, groups, !!nextPageToken) as any
+        });
+        return;
+      }
+
+      if (data.mode === 'edit') {
+        const calendar = getCalendarClient(baseUrl, requesterToken!.refreshToken);
+        const { data: event } = await calendar.events.get({
           calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
-          timeMin,
-          timeMax,
-          maxResults: 10,
-          singleEvents: true,
-          orderBy: 'startTime'
-        } as any);
-
-        const items = (result as any)?.data?.items ?? [];
-        const lines = items.length === 0
-          ? ['予定がありません。']
-          : items.map((event: any) => {
-              const startIso = event.start?.dateTime || event.start?.date || '';
-              const start = startIso ? DateTime.fromISO(startIso, { zone }) : null;
-              const label = start?.isValid ? start.toFormat('M/d HH:mm') : '未定';
-              return `${label} ${event.summary ?? '(タイトルなし)'}`;
-            });
+          eventId: data.eventId!
+        });
+        if (!event.start?.dateTime || !event.end?.dateTime) {
+          await client.views.update({
+            view_id: viewId,
+            view: buildResultView('変更できません', '終日の予定はこのモードでは変更できません。') as any
+          });
+          return;
+        }
 
-        const header = dateRange
-          ? `予定一覧（${dateRange.startDate.toFormat('M/d')}〜${dateRange.endDate.toFormat('M/d')}）`
-          : '予定一覧（直近7日）';
-        const listText = [header, ...lines].join('\n');
-        const previewText = ['```', listText, '```'].join('\n');
+        const start = DateTime.fromISO(event.start.dateTime, { zone });
+        const end = DateTime.fromISO(event.end.dateTime, { zone });
+        const emails = new Set(
+          (event.attendees ?? []).map((attendee) => attendee.email?.toLowerCase()).filter(Boolean)
+        );
+        const [users, attendeeOptions] = await Promise.all([
+          listUserTokens(teamId),
+          buildAttendeeOptions(client, teamId, requesterId)
+        ]);
+        const editPayload: EditPayload = {
+          teamId,
+          requesterId,
+          eventId: event.id!,
+          timeZone: zone,
+          title: event.summary ?? '',
+          startISO: start.toISO()!,
+          durationMinutes: Math.round(end.diff(start, 'minutes').minutes),
+          colorId: event.colorId ?? undefined,
+          attendeeIds: users
+            .filter((user) => user.email && emails.has(user.email.toLowerCase()))
+            .map((user) => user.userId)
+        };
 
         await client.views.update({
           view_id: viewId,
-          view: buildPreviewView('予定一覧', previewText) as any
+          view: buildEditView(editPayload, attendeeOptions) as any
         });
         return;
       }
 
       if (data.mode === 'request') {
-        const durationMinutes = parseDuration(data.duration!);
+        const durationMinutes = parseDuration(data.duration!, workspaceSettings.durationPresets);
         if (!durationMinutes) {
         await client.views.update({
           view_id: viewId,
@@ -695,14 +1264,15 @@ async function main() {
       }
 
         const attendeeIds = data.attendees ?? [];
+        const optionalAttendeeIds = data.optionalAttendees ?? [];
         const missing: string[] = [];
-        const attendeeTokens = new Map<string, string>();
-        for (const userId of attendeeIds) {
+        const attendeeTokens = new Map<string, TokenStoreValue>();
+        for (const userId of [...attendeeIds, ...optionalAttendeeIds]) {
           const tokenInfo = await getUserToken(teamId, userId);
           if (!tokenInfo?.refreshToken) {
             missing.push(userId);
           } else {
-            attendeeTokens.set(userId, tokenInfo.refreshToken);
+            attendeeTokens.set(userId, tokenInfo);
           }
         }
 
@@ -718,10 +1288,12 @@ async function main() {
       }
 
         let start: DateTime;
+        let candidates: Array<{ label: string; startISO: string }> | undefined;
+        const candidateDetails: string[] = [];
         if (data.requestMode === 'auto') {
           const dateRange = parseDateRange(data.dateRange!, now);
           const timeRange = parseTimeRange(data.timeRange!);
-          if (!dateRange || !timeRange || !isValidTimeRange(timeRange)) {
+          if (!dateRange || !timeRange || !padding || !isValidTimeRange(timeRange)) {
             await client.views.update({
               view_id: viewId,
               view: buildResultView('入力エラー', '入力内容を確認してください。') as any
@@ -745,44 +1317,59 @@ async function main() {
             return;
           }
 
+          const busyQueryStart = overallStart.minus({ minutes: padding.after });
+          const busyQueryEnd = overallEnd.plus({ minutes: padding.before });
           const busyIntervals: Array<{ start: DateTime; end: DateTime }> = [];
+          const optionalBusy = new Map<string, Array<{ start: DateTime; end: DateTime }>>();
           const busyTokens = new Map(attendeeTokens);
-          busyTokens.set(requesterId, requesterToken!.refreshToken);
-
-          for (const refreshToken of busyTokens.values()) {
-            const calendar = getCalendarClient(baseUrl, refreshToken);
-            const result = await calendar.freebusy.query({
-              requestBody: {
-                timeMin: overallStart.toISO(),
-                timeMax: overallEnd.toISO(),
-                timeZone: zone,
-                items: [{ id: 'primary' }]
-              }
-            });
-
-            const busy = result.data.calendars?.primary?.busy ?? [];
-            for (const interval of busy) {
-              if (!interval.start || !interval.end) continue;
-              // DEBUG_FREEBUSY logs disabled
-              const parsed = parseBusyInterval(interval.start, interval.end, zone);
-              const startBusy = parsed.start;
-              const endBusy = parsed.end;
-              if (startBusy.isValid && endBusy.isValid) {
-                busyIntervals.push({ start: startBusy, end: endBusy });
-              }
+          busyTokens.set(requesterId, requesterToken!);
+
+          const busyByUser = await buildBusyByUser(
+            baseUrl,
+            busyTokens,
+            preferencesFor,
+            defaultZone,
+            { timeMin: busyQueryStart, timeMax: busyQueryEnd, zone, rules: workspaceSettings.busyEventRules },
+            padding,
+            overallStart,
+            overallEnd
+          );
+          for (const [userId, userBusy] of busyByUser) {
+            if (optionalAttendeeIds.includes(userId)) {
+              optionalBusy.set(userId, userBusy);
+            } else {
+              busyIntervals.push(...userBusy);
             }
           }
 
-          const days = listDays(dateRange.startDate, dateRange.endDate);
-          const slot = findFirstAvailableSlot(days, timeRange, durationMinutes, busyIntervals);
-          if (!slot) {
+          const dayFilter = { ...dateRange.filter, skipHolidays: !data.includeHolidays };
+          // A weekday series only looks at weekdays, so every candidate is a valid first occurrence.
+          const seriesWeekdays = recurrenceWeekdays(data.recurrence);
+          if (seriesWeekdays) {
+            restrictWeekdays(dayFilter, seriesWeekdays);
+          }
+          const days = listDays(dateRange.startDate, dateRange.endDate, dayFilter);
+          const ranked = rankCandidateSlots(days, timeRange, busyIntervals, {
+            now,
+            durationMinutes,
+            preferredTime: data.preferredTime,
+            limit: REQUEST_CANDIDATE_COUNT,
+            optionalBusy
+          });
+          if (ranked.length === 0) {
             await client.views.update({
               view_id: viewId,
               view: buildResultView('空きが見つかりませんでした', '指定期間内で空きが見つかりませんでした。') as any
             });
             return;
           }
-          start = slot;
+          start = ranked[0].start;
+          const names = await resolveUserNames(client, optionalAttendeeIds);
+          candidates = ranked.map((candidate) => {
+            const base = `${candidate.start.setLocale('ja').toFormat('M/d(ccc) HH:mm')}〜${candidate.end.toFormat('HH:mm')}`;
+            candidateDetails.push(`- ${base}${formatUnavailable(candidate.unavailable, names)}`);
+            return { label: buildOptionLabel(base, candidate.unavailable), startISO: candidate.start.toISO()! };
+          });
         } else {
           const date = parseDate(data.date!, now);
           const time = parseTime(data.time!);
@@ -803,18 +1390,63 @@ async function main() {
             },
             { zone }
           );
+          if (recurrenceWeekdays(data.recurrence)?.includes(start.weekday) === false) {
+            await client.views.update({
+              view_id: viewId,
+              view: buildResultView('入力エラー', '平日の繰り返しは平日の日付から開始してください。') as any
+            });
+            return;
+          }
         }
 
+        const recurrenceEnd = data.recurrence ? parseRecurrenceEnd(data.recurrenceEnd, now) : null;
+        if (data.recurrence && (!recurrenceEnd || (recurrenceEnd.untilDate && recurrenceEnd.untilDate < start.toISODate()!))) {
+          await client.views.update({
+            view_id: viewId,
+            view: buildResultView('入力エラー', '繰り返しの終了日/回数を確認してください。') as any
+          });
+          return;
+        }
+        const recurrence: RecurrenceRule | undefined = data.recurrence
+          ? { frequency: data.recurrence, ...recurrenceEnd }
+          : undefined;
+
         const colorId =
           data.colorId ?? resolveColorId(process.env.GCAL_DEFAULT_COLOR ?? undefined);
 
-        const previewBody = [
+        const previewLines = [
           `タイトル: ${data.title}`,
           `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})`,
           `時間: ${durationMinutes}分`,
           `参加者: ${attendeeIds.map((id) => `<@${id}>`).join(' ')}`,
-          colorId ? `色: ${colorId}` : '色: なし'
-        ].join('\n');
+          ...(optionalAttendeeIds.length > 0
+            ? [`任意参加: ${optionalAttendeeIds.map((id) => `<@${id}>`).join(' ')}`]
+            : []),
+          colorId ? `色: ${colorId}` : '色: なし',
+          `Meet: ${data.addMeet ? '付ける' : 'なし'}`,
+          ...buildEventDetailLines(data.location, data.description, reminders)
+        ];
+        if (candidates && candidates.length > 1) {
+          previewLines.push(`候補 (おすすめ順): ${candidates.length}件 / 下から選択してください`, ...candidateDetails);
+        }
+        const startHoliday = getHolidayName(start);
+        if (startHoliday) {
+          previewLines.push(`:warning: 開始日は祝日です (${startHoliday})`);
+        }
+        if (recurrence) {
+          previewLines.push(
+            ...(await buildRecurrencePreviewLines(
+              baseUrl,
+              { userId: requesterId, token: requesterToken!, userZone: zone },
+              workspaceSettings.busyEventRules,
+              recurrence,
+              start,
+              durationMinutes,
+              zone
+            ))
+          );
+        }
+        const previewBody = previewLines.join('\n');
 
         const metadata: PreviewPayload = {
           kind: 'request',
@@ -823,8 +1455,16 @@ async function main() {
           startISO: start.toISO()!,
           durationMinutes,
           colorId,
+          recurrence,
+          timeZone: zone,
+          addMeet: data.addMeet,
+          location: data.location,
+          description: data.description,
+          reminders,
           requesterId,
-          attendeeIds
+          attendeeIds,
+          optionalAttendeeIds,
+          candidates
         };
 
         await client.views.update({
@@ -850,6 +1490,39 @@ async function main() {
     });
   });
 
+  // Keeps the picked candidate in private_metadata so the confirm button reads it from there.
+  app.action('candidate_select', async ({ ack, body, client }: any) => {
+    await ack();
+    const selected = body.actions?.[0]?.selected_option;
+    if (!selected?.value || !body.view?.private_metadata) return;
+    try {
+      const payload = JSON.parse(body.view.private_metadata) as PreviewPayload;
+      if (payload.kind !== 'request' || !payload.candidates?.some((candidate) => candidate.startISO === selected.value)) {
+        return;
+      }
+      payload.startISO = selected.value;
+      const blocks = body.view.blocks.map((block: any) =>
+        block.block_id === 'candidate_block'
+          ? { ...block, elements: block.elements.map((element: any) => ({ ...element, initial_option: selected })) }
+          : block
+      );
+      await client.views.update({
+        view_id: body.view.id,
+        hash: body.view.hash,
+        view: {
+          type: 'modal',
+          callback_id: body.view.callback_id,
+          title: body.view.title,
+          close: body.view.close,
+          blocks,
+          private_metadata: JSON.stringify(payload)
+        }
+      });
+    } catch (err) {
+      console.warn('Failed to keep candidate selection', err);
+    }
+  });
+
   app.action('gcal_share_open', async ({ ack, body, client, context }: any) => {
     await ack();
     const teamId = resolveTeamId(body, context);
@@ -876,7 +1549,8 @@ async function main() {
         payload.durationMinutes,
         payload.slotOptions,
         payload.requesterId,
-        payload.teamId || teamId
+        payload.teamId || teamId,
+        payload.optionalAttendeeIds
       ) as any
     });
   });
@@ -898,6 +1572,17 @@ async function main() {
       });
       return;
     }
+    const location = view.state.values['location_block']?.['location_input']?.value?.trim() || undefined;
+    const description = view.state.values['description_block']?.['description_input']?.value?.trim() || undefined;
+    const remindersInput = view.state.values['reminders_block']?.['reminders_input']?.value?.trim();
+    const reminders = remindersInput ? parseReminders(remindersInput) : undefined;
+    if (reminders === null) {
+      await ack({
+        response_action: 'errors',
+        errors: { reminders_block: 'リマインダーを確認してください。(例: 10分前 / メール 1日前、最大5件)' }
+      });
+      return;
+    }
 
     await ack({ response_action: 'clear' });
 
@@ -908,6 +1593,7 @@ async function main() {
       durationMinutes?: number;
       slotOptions?: Array<{ label: string; value: string }>;
       attendeeIds?: string[];
+      optionalAttendeeIds?: string[];
       requesterId?: string;
     } | null = null;
     try {
@@ -919,6 +1605,7 @@ async function main() {
             durationMinutes?: number;
             slotOptions?: Array<{ label: string; value: string }>;
             attendeeIds?: string[];
+            optionalAttendeeIds?: string[];
             requesterId?: string;
           })
         : null;
@@ -932,6 +1619,9 @@ async function main() {
     const codeBlock = availabilityText ? ['```', availabilityText, '```'].join('\n') : '';
     const slotOptions = metadata?.slotOptions ?? [];
     const requestTitle = view.state.values['request_title_block']?.['request_title_input']?.value?.trim() || '予定リクエスト';
+    const addMeet = (view.state.values['meet_block']?.['meet_toggle']?.selected_options ?? []).some(
+      (opt: any) => opt.value === 'meet'
+    );
     const attendeeIds = metadata?.attendeeIds ?? [];
     const requesterId = metadata?.requesterId ?? body.user.id;
 
@@ -947,6 +1637,10 @@ async function main() {
     if (codeBlock) {
       baseBlocks.push({ type: 'section', text: { type: 'mrkdwn', text: codeBlock } });
     }
+    const detailLines = buildEventDetailLines(location, description, reminders);
+    if (detailLines.length > 0) {
+      baseBlocks.push({ type: 'section', text: { type: 'mrkdwn', text: detailLines.join('\n') } });
+    }
 
     const fallbackText = [attendeeLine, messagePlain, availabilityText].filter(Boolean).join('\n');
     const blocks = slotOptions.length > 0 ? buildShareMessageBlocks(baseBlocks, slotOptions) : baseBlocks;
@@ -966,10 +1660,17 @@ async function main() {
           teamId: effectiveTeamId,
           requesterId,
           attendeeIds,
+          optionalAttendeeIds: metadata?.optionalAttendeeIds ?? [],
           title: requestTitle,
           durationMinutes: metadata?.durationMinutes ?? 0,
           slotOptions,
-          baseBlocks
+          baseBlocks,
+          channelId: channel,
+          messageTs: response.ts,
+          addMeet,
+          location,
+          description,
+          reminders
         });
       }
       // no-op: success notification is unnecessary
@@ -1027,32 +1728,12 @@ async function main() {
     const requesterToken = await getUserToken(effectiveTeamId, meta.requesterId);
     if (!requesterToken?.refreshToken) return;
 
-    const attendees: { email: string }[] = [];
-    const missing: string[] = [];
-    for (const userId of meta.attendeeIds) {
-      const tokenInfo = await getUserToken(effectiveTeamId, userId);
-      if (!tokenInfo?.refreshToken) {
-        missing.push(userId);
-        continue;
-      }
-      let email: string | undefined = tokenInfo.email;
-      if (!email) {
-        try {
-          email = (await fetchUserEmail(baseUrl, tokenInfo.refreshToken)) ?? undefined;
-          if (email) {
-            await updateUserEmail(effectiveTeamId, userId, email);
-          }
-        } catch {
-          missing.push(userId);
-          continue;
-        }
-      }
-      if (!email) {
-        missing.push(userId);
-        continue;
-      }
-      attendees.push({ email });
-    }
+    const { attendees, missing } = await collectAttendeeEmails(
+      baseUrl,
+      effectiveTeamId,
+      meta.attendeeIds,
+      meta.optionalAttendeeIds
+    );
 
     if (missing.length > 0) {
       await client.chat.postEphemeral({
@@ -1072,20 +1753,46 @@ async function main() {
       const created = await calendar.events.insert({
         calendarId,
         sendUpdates: 'all',
+        conferenceDataVersion: meta.addMeet ? 1 : undefined,
         requestBody: {
           summary: meta.title,
           start: { dateTime: start.toISO(), timeZone: process.env.GCAL_TIMEZONE || 'UTC' },
           end: { dateTime: end.toISO(), timeZone: process.env.GCAL_TIMEZONE || 'UTC' },
-          attendees
+          attendees,
+          conferenceData: meta.addMeet ? buildMeetConferenceData() : undefined,
+          location: meta.location,
+          description: meta.description,
+          reminders: meta.reminders ? { useDefault: false, overrides: meta.reminders } : undefined
         }
       });
 
       meta.eventId = created.data.id ?? undefined;
       meta.selectedLabel = body.actions[0]?.selected_option?.text?.text ?? undefined;
+      meta.meetUrl = extractMeetUrl(created.data);
+      if (meta.eventId) {
+        await trackEvent({
+          teamId: effectiveTeamId,
+          eventId: meta.eventId,
+          requesterId: meta.requesterId,
+          title: meta.title,
+          startAt: start.toUTC().toISO()!,
+          summaryChannel: meta.channelId,
+          summaryThreadTs: meta.messageTs,
+          shareMessage: {
+            baseBlocks: meta.baseBlocks,
+            slotOptions: meta.slotOptions,
+            selectedLabel: meta.selectedLabel,
+            meetUrl: meta.meetUrl
+          }
+        }).catch((err) => console.warn('Failed to track event', err));
+      }
       sharedRequestMap.set(key, meta);
 
       if (meta.baseBlocks && meta.slotOptions) {
-        const blocks = buildShareMessageBlocks(meta.baseBlocks, meta.slotOptions, meta.selectedLabel);
+        const blocks = buildShareMessageBlocks(meta.baseBlocks, meta.slotOptions, {
+          selectedLabel: meta.selectedLabel,
+          meetUrl: meta.meetUrl
+        });
         await client.chat.update({
           channel: channelId,
           ts: messageTs,
@@ -1148,9 +1855,11 @@ async function main() {
         eventId: meta.eventId,
         sendUpdates: 'all'
       });
+      await removeTrackedEvent(effectiveTeamId, meta.eventId);
 
       meta.eventId = undefined;
       meta.selectedLabel = undefined;
+      meta.meetUrl = undefined;
       sharedRequestMap.set(key, meta);
 
       const blocks = buildShareMessageBlocks(meta.baseBlocks, meta.slotOptions);
@@ -1170,9 +1879,241 @@ async function main() {
     }
   });
 
+  const showEventListPage = async (body: any, client: any, offset: number) => {
+    const current = JSON.parse(body.view.private_metadata) as EventListPayload;
+    const payload: EventListPayload = { ...current, page: current.page + offset };
+    const tokenInfo = await getUserToken(payload.teamId, payload.requesterId);
+    if (!tokenInfo?.refreshToken || payload.page < 0 || payload.page >= payload.pageTokens.length) return;
+    try {
+      const { groups, nextPageToken } = await loadEventListPage(baseUrl, tokenInfo.refreshToken, payload);
+      payload.pageTokens = payload.pageTokens.slice(0, payload.page + 1);
+      if (nextPageToken) payload.pageTokens.push(nextPageToken);
+      await client.views.update({
+        view_id: body.view.id,
+        hash: body.view.hash,
+        view: buildEventListView(payload, groups, !!nextPageToken) as any
+      });
+    } catch (err) {
+      console.error('Failed to page event list', err);
+    }
+  };
+
+  app.action('gcal_list_next', async ({ ack, body, client }: any) => {
+    await ack();
+    await showEventListPage(body, client, 1);
+  });
+
+  app.action('gcal_list_prev', async ({ ack, body, client }: any) => {
+    await ack();
+    await showEventListPage(body, client, -1);
+  });
+
+  app.action('gcal_cancel_open', async ({ ack, body, client, context }: any) => {
+    await ack();
+    const teamId = resolveTeamId(body, context);
+    const eventId = body.actions[0]?.value as string | undefined;
+    const [tokenInfo, preferences] = await Promise.all([
+      getUserToken(teamId, body.user.id),
+      getUserPreferences(teamId, body.user.id)
+    ]);
+    if (!eventId || !tokenInfo?.refreshToken) return;
+    const zone = preferences.timezone ?? (process.env.GCAL_TIMEZONE || 'UTC');
+
+    try {
+      const calendar = getCalendarClient(baseUrl, tokenInfo.refreshToken);
+      const { data: event } = await calendar.events.get({
+        calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+        eventId
+      });
+      const startIso = event.start?.dateTime || event.start?.date || '';
+      const start = DateTime.fromISO(startIso, { zone });
+      const guestCount = (event.attendees ?? []).filter((attendee) => !attendee.self).length;
+      await client.views.push({
+        trigger_id: body.trigger_id,
+        view: buildCancelView({
+          teamId,
+          requesterId: body.user.id,
+          eventId,
+          title: event.summary ?? '(タイトルなし)',
+          whenLabel: `${start.isValid ? start.setLocale('ja').toFormat('M/d(ccc) HH:mm') : '未定'} / 参加者${guestCount}名`
+        }) as any
+      });
+    } catch (err) {
+      console.error('Failed to open cancel dialog', err);
+      await client.views.push({
+        trigger_id: body.trigger_id,
+        view: buildResultView('エラー', '予定を取得できませんでした。') as any
+      });
+    }
+  });
+
+  app.view('gcal_cancel', async ({ ack, view, client }: any) => {
+    const message: string | undefined =
+      view.state.values.cancel_message_block?.cancel_message_input?.value?.trim() || undefined;
+
+    await ack({
+      response_action: 'update',
+      view: buildLoadingView('処理中', 'しばらくお待ちください...') as any
+    });
+
+    let payload: CancelPayload;
+    try {
+      payload = JSON.parse(view.private_metadata) as CancelPayload;
+      const tokenInfo = await getUserToken(payload.teamId, payload.requesterId);
+      if (!tokenInfo?.refreshToken) {
+        await client.views.update({
+          view_id: view.id,
+          view: buildResultView('Google連携が必要です', '先にGoogleアカウント連携が必要です。') as any
+        });
+        return;
+      }
+      const calendar = getCalendarClient(baseUrl, tokenInfo.refreshToken);
+      const calendarId = process.env.GCAL_CALENDAR_ID || 'primary';
+      await calendar.events.delete({ calendarId, eventId: payload.eventId, sendUpdates: 'all' });
+    } catch (err) {
+      console.error('Failed to cancel event', err);
+      await client.views.update({
+        view_id: view.id,
+        view: buildResultView('エラー', '取消に失敗しました。設定や権限を確認してください。') as any
+      });
+      return;
+    }
+
+    // The event is gone at this point; a failure below only affects the Slack side.
+    try {
+      const tracked = await getTrackedEvent(payload.teamId, payload.eventId);
+      await removeTrackedEvent(payload.teamId, payload.eventId);
+      if (tracked?.shareMessage && tracked.summaryThreadTs) {
+        await client.chat.update({
+          channel: tracked.summaryChannel,
+          ts: tracked.summaryThreadTs,
+          text: `予定「${tracked.title}」は取り消されました。`,
+          blocks: buildShareMessageBlocks(tracked.shareMessage.baseBlocks, tracked.shareMessage.slotOptions, {
+            selectedLabel: tracked.shareMessage.selectedLabel,
+            cancelled: true
+          })
+        });
+        await client.chat.postMessage({
+          channel: tracked.summaryChannel,
+          thread_ts: tracked.summaryThreadTs,
+          text: `<@${payload.requesterId}> が予定を取り消しました。${message ? `\n${message}` : ''}`
+        });
+      }
+    } catch (err) {
+      console.warn('Failed to update Slack after cancelling', err);
+    }
+
+    await client.views.update({
+      view_id: view.id,
+      view: buildResultView(
+        '予定を取り消しました',
+        `${payload.title}\n${payload.whenLabel}${message ? `\n\nメッセージ:\n${message}` : ''}`
+      ) as any
+    });
+  });
+
+  app.view('gcal_edit', async ({ ack, body, view, client }: any) => {
+    const { data, errors } = parseEditState(view.state.values);
+    if (Object.keys(errors).length > 0) {
+      await ack({ response_action: 'errors', errors });
+      return;
+    }
+
+    await ack({
+      response_action: 'update',
+      view: buildLoadingView('処理中', 'しばらくお待ちください...') as any
+    });
+
+    const viewId = body.view.id;
+    const original = JSON.parse(view.private_metadata) as EditPayload;
+    const zone = original.timeZone;
+    const now = DateTime.now().setZone(zone);
+    try {
+      const workspaceSettings = await getWorkspaceSettings(original.teamId);
+      const date = parseDate(data.date!, now);
+      const time = parseTime(data.time!);
+      const durationMinutes = parseDuration(data.duration!, workspaceSettings.durationPresets);
+      if (!date || !time || !durationMinutes) {
+        await client.views.update({
+          view_id: viewId,
+          view: buildResultView('入力エラー', '日付/時間/時間長を確認してください。') as any
+        });
+        return;
+      }
+
+      const originalStart = DateTime.fromISO(original.startISO, { zone });
+      const start = DateTime.fromObject(
+        { year: date.year, month: date.month, day: date.day, hour: time.hour, minute: time.minute },
+        { zone }
+      );
+      const colorId = data.colorId ?? original.colorId;
+      const changedFields: Array<'title' | 'time' | 'color'> = [];
+      const lines: string[] = [];
+      if (data.title !== original.title) {
+        changedFields.push('title');
+        lines.push(`タイトル: ${original.title || '(なし)'} → ${data.title}`);
+      }
+      if (!start.equals(originalStart) || durationMinutes !== original.durationMinutes) {
+        changedFields.push('time');
+        lines.push(
+          `日時: ${originalStart.toFormat('yyyy-LL-dd HH:mm')} (${original.durationMinutes}分) → ${start.toFormat(
+            'yyyy-LL-dd HH:mm'
+          )} (${durationMinutes}分)`
+        );
+      }
+      if (colorId !== original.colorId) {
+        changedFields.push('color');
+        lines.push(`色: ${colorNameFromId(original.colorId) ?? 'なし'} → ${colorNameFromId(colorId) ?? 'なし'}`);
+      }
+      const addedAttendeeIds = data.attendees.filter((id) => !original.attendeeIds.includes(id));
+      const removedAttendeeIds = original.attendeeIds.filter((id) => !data.attendees.includes(id));
+      if (addedAttendeeIds.length > 0) {
+        lines.push(`参加者を追加: ${addedAttendeeIds.map((id) => `<@${id}>`).join(' ')}`);
+      }
+      if (removedAttendeeIds.length > 0) {
+        lines.push(`参加者を削除: ${removedAttendeeIds.map((id) => `<@${id}>`).join(' ')}`);
+      }
+
+      if (lines.length === 0) {
+        await client.views.update({
+          view_id: viewId,
+          view: buildResultView('変更なし', '変更された項目がありません。') as any
+        });
+        return;
+      }
+
+      const notifyLabel = sendUpdatesOptions.find((opt) => opt.value === data.sendUpdates)?.label;
+      const metadata: PreviewPayload = {
+        kind: 'edit',
+        teamId: original.teamId,
+        requesterId: original.requesterId,
+        eventId: original.eventId,
+        timeZone: zone,
+        title: data.title!,
+        startISO: start.toISO()!,
+        durationMinutes,
+        colorId,
+        changedFields,
+        addedAttendeeIds,
+        removedAttendeeIds,
+        sendUpdates: data.sendUpdates
+      };
+      await client.views.update({
+        view_id: viewId,
+        view: buildPreviewView('予定変更プレビュー', [...lines, `通知: ${notifyLabel}`].join('\n'), metadata) as any
+      });
+    } catch (err) {
+      console.error('Failed to build edit preview', err);
+      await client.views.update({
+        view_id: viewId,
+        view: buildResultView('エラー', '処理に失敗しました。設定や権限を確認してください。') as any
+      });
+    }
+  });
+
   app.action('gcal_preview_create', async ({ ack, body, client, context }: any) => {
     await ack();
-    const zone = process.env.GCAL_TIMEZONE || 'UTC';
+    const defaultZone = process.env.GCAL_TIMEZONE || 'UTC';
     const teamId = resolveTeamId(body, context);
     let payload: PreviewPayload | null = null;
     try {
@@ -1214,6 +2155,74 @@ async function main() {
         return;
       }
 
+      if (payload.kind === 'edit') {
+        const { attendees: added, missing } = await collectAttendeeEmails(
+          baseUrl,
+          effectiveTeamId,
+          payload.addedAttendeeIds
+        );
+        if (missing.length > 0) {
+          await client.views.update({
+            view_id: body.view.id,
+            view: buildResultView(
+              '未連携ユーザーがあります',
+              `以下のユーザーは未連携/メール取得不可です: ${missing.map((id) => `<@${id}>`).join(' ')}`
+            ) as any
+          });
+          return;
+        }
+
+        const zone = payload.timeZone;
+        const calendar = getCalendarClient(baseUrl, requesterToken.refreshToken);
+        const calendarId = process.env.GCAL_CALENDAR_ID || 'primary';
+        const requestBody: any = {};
+        if (payload.changedFields.includes('title')) {
+          requestBody.summary = payload.title;
+        }
+        if (payload.changedFields.includes('time')) {
+          const start = DateTime.fromISO(payload.startISO, { zone });
+          requestBody.start = { dateTime: start.toISO(), timeZone: zone };
+          requestBody.end = { dateTime: start.plus({ minutes: payload.durationMinutes }).toISO(), timeZone: zone };
+        }
+        if (payload.changedFields.includes('color')) {
+          requestBody.colorId = payload.colorId;
+        }
+        if (added.length > 0 || payload.removedAttendeeIds.length > 0) {
+          // Patch replaces the whole list, so start from the current one to keep guests and their responses.
+          const { data: event } = await calendar.events.get({ calendarId, eventId: payload.eventId });
+          const users = await listUserTokens(effectiveTeamId);
+          const removedEmails = new Set(
+            users
+              .filter((user) => user.email && payload.removedAttendeeIds.includes(user.userId))
+              .map((user) => user.email!.toLowerCase())
+          );
+          const kept = (event.attendees ?? []).filter(
+            (attendee) => !attendee.email || !removedEmails.has(attendee.email.toLowerCase())
+          );
+          const keptEmails = new Set(kept.map((attendee) => attendee.email?.toLowerCase()));
+          requestBody.attendees = [
+            ...kept,
+            ...added.filter((attendee) => !keptEmails.has(attendee.email.toLowerCase()))
+          ];
+        }
+
+        const result = await calendar.events.patch({
+          calendarId,
+          eventId: payload.eventId,
+          sendUpdates: payload.sendUpdates,
+          requestBody
+        });
+        const link = result.data.htmlLink ? `\n${result.data.htmlLink}` : '';
+        await client.views.update({
+          view_id: body.view.id,
+          view: buildResultView(
+            '予定を変更しました',
+            `${payload.title}\n開始: ${DateTime.fromISO(payload.startISO, { zone }).toFormat('yyyy-LL-dd HH:mm')} (${zone})${link}`
+          ) as any
+        });
+        return;
+      }
+
       if (payload.kind !== 'create' && payload.kind !== 'request') {
         await client.views.update({
           view_id: body.view.id,
@@ -1222,58 +2231,61 @@ async function main() {
         return;
       }
 
+      const zone = payload.timeZone ?? defaultZone;
+      // candidate_select writes the picked candidate back into payload.startISO.
+      const startISO = payload.startISO;
       const calendar = getCalendarClient(baseUrl, requesterToken.refreshToken);
-      const start = DateTime.fromISO(payload.startISO, { zone });
+      const start = DateTime.fromISO(startISO, { zone });
       const end = start.plus({ minutes: payload.durationMinutes });
       const calendarId = process.env.GCAL_CALENDAR_ID || 'primary';
+      const recurrenceLine = payload.recurrence
+        ? `\n繰り返し: ${describeRecurrence(payload.recurrence, start)}`
+        : '';
 
       if (payload.kind === 'create') {
+        const allDayRange = payload.allDayRange;
         const result = await calendar.events.insert({
           calendarId,
+          conferenceDataVersion: payload.addMeet ? 1 : undefined,
           requestBody: {
             summary: payload.title,
-            start: { dateTime: start.toISO(), timeZone: zone },
-            end: { dateTime: end.toISO(), timeZone: zone },
-            colorId: payload.colorId
+            // All-day end dates are exclusive.
+            start: allDayRange ? { date: allDayRange.startDate } : { dateTime: start.toISO(), timeZone: zone },
+            end: allDayRange
+              ? { date: DateTime.fromISO(allDayRange.endDate).plus({ days: 1 }).toISODate() }
+              : { dateTime: end.toISO(), timeZone: zone },
+            colorId: payload.colorId,
+            recurrence: payload.recurrence ? [buildRRule(payload.recurrence, start)] : undefined,
+            conferenceData: payload.addMeet ? buildMeetConferenceData() : undefined,
+            location: payload.location,
+            description: payload.description,
+            reminders: payload.reminders ? { useDefault: false, overrides: payload.reminders } : undefined
           }
         });
         const link = result.data.htmlLink ? `\n${result.data.htmlLink}` : '';
+        const meetUrl = extractMeetUrl(result.data);
+        const meetLine = meetUrl ? `\nMeet: ${meetUrl}` : '';
         await client.views.update({
           view_id: body.view.id,
           view: buildResultView(
             '予定を作成しました',
-            `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})${link}`
+            `${
+              allDayRange
+                ? `期間: ${allDayRange.startDate}〜${allDayRange.endDate} (終日)`
+                : `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})`
+            }${recurrenceLine}${meetLine}${link}`
           ) as any
         });
         return;
       }
 
       if (payload.kind === 'request') {
-        const attendees: { email: string }[] = [];
-        const missing: string[] = [];
-        for (const userId of payload.attendeeIds) {
-          const tokenInfo = await getUserToken(effectiveTeamId, userId);
-          if (!tokenInfo?.refreshToken) {
-            missing.push(userId);
-            continue;
-          }
-          let email = tokenInfo.email;
-          if (!email) {
-            try {
-              email = (await fetchUserEmail(baseUrl, tokenInfo.refreshToken)) ?? undefined;
-              if (email) {
-                await updateUserEmail(effectiveTeamId, userId, email);
-              }
-            } catch (err) {
-              console.warn('Failed to fetch email for attendee', err);
-            }
-          }
-          if (!email) {
-            missing.push(userId);
-            continue;
-          }
-          attendees.push({ email });
-        }
+        const { attendees, missing } = await collectAttendeeEmails(
+          baseUrl,
+          effectiveTeamId,
+          payload.attendeeIds,
+          payload.optionalAttendeeIds
+        );
 
         if (missing.length > 0) {
         await client.views.update({
@@ -1291,20 +2303,39 @@ async function main() {
         const result = await calendar.events.insert({
           calendarId,
           sendUpdates: 'all',
+          conferenceDataVersion: payload.addMeet ? 1 : undefined,
           requestBody: {
             summary: payload.title,
             start: { dateTime: start.toISO(), timeZone: zone },
             end: { dateTime: end.toISO(), timeZone: zone },
             attendees,
-            colorId: payload.colorId
+            colorId: payload.colorId,
+            recurrence: payload.recurrence ? [buildRRule(payload.recurrence, start)] : undefined,
+            conferenceData: payload.addMeet ? buildMeetConferenceData() : undefined,
+            location: payload.location,
+            description: payload.description,
+            reminders: payload.reminders ? { useDefault: false, overrides: payload.reminders } : undefined
           }
         });
+        if (result.data.id) {
+          // The RSVP summary goes to the requester's DM.
+          await trackEvent({
+            teamId: effectiveTeamId,
+            eventId: result.data.id,
+            requesterId: payload.requesterId,
+            title: payload.title,
+            startAt: start.toUTC().toISO()!,
+            summaryChannel: payload.requesterId
+          }).catch((err) => console.warn('Failed to track event', err));
+        }
         const link = result.data.htmlLink ? `\n${result.data.htmlLink}` : '';
+        const meetUrl = extractMeetUrl(result.data);
+        const meetLine = meetUrl ? `\nMeet: ${meetUrl}` : '';
         await client.views.update({
           view_id: body.view.id,
           view: buildResultView(
             '予定リクエストを送信しました',
-            `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})${link}`
+            `開始: ${start.toFormat('yyyy-LL-dd HH:mm')} (${zone})${recurrenceLine}${meetLine}${link}`
           ) as any
         });
         return;
@@ -1318,7 +2349,63 @@ async function main() {
     }
   });
 
+  // Keeps shared request messages in step with the booked event when it is moved or deleted in Google.
+  // The booking is read from the tracked event row, since this often runs in a fresh serverless process.
+  addCalendarChangeListener(async ({ teamId, event }) => {
+    if (!event.id) return;
+    const tracked = await getTrackedEvent(teamId, event.id);
+    const share = tracked?.shareMessage;
+    if (!tracked || !share || !tracked.summaryThreadTs) return;
+    const botToken = await resolveBotToken(teamId);
+    if (!botToken) return;
+
+    if (event.status === 'cancelled') {
+      await removeTrackedEvent(teamId, event.id);
+      await app.client.chat.update({
+        token: botToken,
+        channel: tracked.summaryChannel,
+        ts: tracked.summaryThreadTs,
+        text: `予定「${tracked.title}」は取り消されました。`,
+        blocks: buildShareMessageBlocks(share.baseBlocks, share.slotOptions, {
+          selectedLabel: share.selectedLabel,
+          cancelled: true
+        })
+      });
+      return;
+    }
+
+    const startValue = event.start?.dateTime;
+    if (!startValue) return;
+    const zone = process.env.GCAL_TIMEZONE || 'UTC';
+    const start = DateTime.fromISO(startValue).setZone(zone);
+    if (start.toMillis() === DateTime.fromISO(tracked.startAt).toMillis()) return;
+    const end = event.end?.dateTime ? DateTime.fromISO(event.end.dateTime).setZone(zone) : undefined;
+
+    const selectedLabel = `${start.setLocale('ja').toFormat('M/d(ccc) HH:mm')}${end ? `-${end.toFormat('HH:mm')}` : ''} (変更済み)`;
+    await updateTrackedEvent(teamId, event.id, {
+      startAt: start.toUTC().toISO()!,
+      shareMessage: { ...share, selectedLabel }
+    });
+    await app.client.chat.update({
+      token: botToken,
+      channel: tracked.summaryChannel,
+      ts: tracked.summaryThreadTs,
+      text: `予定「${tracked.title}」の日時が変更されました。`,
+      blocks: buildShareMessageBlocks(share.baseBlocks, share.slotOptions, {
+        selectedLabel,
+        meetUrl: share.meetUrl
+      })
+    });
+  });
+
+  registerJob('watch-renewal', (now) => renewWatchChannels(baseUrl, now));
+  registerJob('rsvp-tracker', (now) => pollRsvps(app.client, baseUrl, now));
+  registerJob('agenda-digest', (now) => sendDueAgendaDigests(app.client, baseUrl, now));
+  registerJob('meeting-reminders', (now) => sendDueMeetingReminders(app.client, baseUrl, now));
+  registerJob('slack-status', (now) => syncSlackStatuses(app.client, baseUrl, now));
+
   await app.start(port);
+  startScheduler();
   console.log(`Slack Bolt app is running on port ${port}`);
 }
 
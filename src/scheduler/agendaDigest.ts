@@ -0,0 +1,122 @@
+import { DateTime } from 'luxon';
+import { getCalendarClient } from '../google/oauth';
+import { formatEventListItem } from '../slack/eventList';
+import { resolveBotToken } from '../slack/rsvpTracker';
+import { claimDelivery, releaseDelivery } from '../store/deliveryStore';
+import { getUserToken } from '../store/tokenStore';
+import { DigestPreferences, listUsersWithPreference, UserPreferences } from '../store/userPreferencesStore';
+import { getWorkspaceSettings } from '../store/workspaceSettingsStore';
+import { BusyEventRules, collectBusyIntervals } from '../utils/busyEvents';
+import { getHolidayName } from '../utils/holidays';
+import { buildFreeIntervals, mergeBusyIntervals } from '../utils/intervals';
+
+// A digest missed by more than this (server down, cron delayed) is skipped rather than sent late.
+const DIGEST_CATCH_UP_MINUTES = 120;
+const MIN_GAP_MINUTES = 15;
+
+type Interval = { start: DateTime; end: DateTime };
+
+export function isDigestDue(digest: DigestPreferences, local: DateTime) {
+  if (!digest.weekdays.includes(local.weekday)) return false;
+  const due = local.startOf('day').set({ hour: digest.time.hour, minute: digest.time.minute });
+  return local >= due && local < due.plus({ minutes: DIGEST_CATCH_UP_MINUTES });
+}
+
+// Free stretches between busy events, bounded by today's working hours when the user has set them.
+function findGaps(busy: Interval[], day: DateTime, preferences: UserPreferences): Interval[] {
+  const range = preferences.workingHours?.[String(day.weekday)];
+  let rangeStart: DateTime;
+  let rangeEnd: DateTime;
+  if (range) {
+    rangeStart = day.set({ hour: range.start.hour, minute: range.start.minute });
+    rangeEnd = day.set({ hour: range.end.hour, minute: range.end.minute });
+  } else if (busy.length > 0) {
+    const dayEnd = day.plus({ days: 1 });
+    rangeStart = busy.reduce((min, interval) => (interval.start < min ? interval.start : min), dayEnd);
+    rangeEnd = busy.reduce((max, interval) => (interval.end > max ? interval.end : max), day);
+    if (rangeStart < day) rangeStart = day;
+    if (rangeEnd > dayEnd) rangeEnd = dayEnd;
+  } else {
+    return [];
+  }
+  return buildFreeIntervals(rangeStart, rangeEnd, mergeBusyIntervals(busy, rangeStart, rangeEnd)).filter(
+    (gap) => gap.end.diff(gap.start, 'minutes').minutes >= MIN_GAP_MINUTES
+  );
+}
+
+export function buildAgendaDigestText(
+  events: any[],
+  day: DateTime,
+  preferences: UserPreferences,
+  rules: BusyEventRules
+) {
+  const zone = day.zoneName ?? 'UTC';
+  const holidayName = getHolidayName(day);
+  const lines = [`*今日の予定* ${day.setLocale('ja').toFormat('M/d(ccc)')}${holidayName ? ` ${holidayName}` : ''}`];
+  const visible = events.filter((event) => event.status !== 'cancelled');
+  if (visible.length === 0) {
+    lines.push('予定はありません。');
+    return lines.join('\n');
+  }
+  for (const event of visible) {
+    lines.push(formatEventListItem(event, zone));
+  }
+
+  const { timed } = collectBusyIntervals(visible, rules, zone, zone);
+  const gaps = findGaps(timed, day, preferences);
+  if (gaps.length > 0) {
+    lines.push('', '*空き時間*');
+    for (const gap of gaps) {
+      const minutes = Math.round(gap.end.diff(gap.start, 'minutes').minutes);
+      lines.push(`- ${gap.start.toFormat('HH:mm')}〜${gap.end.toFormat('HH:mm')} (${minutes}分)`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function sendAgendaDigest(
+  client: any,
+  baseUrl: string,
+  teamId: string,
+  userId: string,
+  preferences: UserPreferences,
+  day: DateTime
+) {
+  const token = await getUserToken(teamId, userId);
+  const botToken = await resolveBotToken(teamId);
+  if (!token?.refreshToken || !botToken) return;
+
+  // Same query as list mode, limited to the user's calendar day.
+  const calendar = getCalendarClient(baseUrl, token.refreshToken);
+  const result = await calendar.events.list({
+    calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+    timeMin: day.toISO()!,
+    timeMax: day.plus({ days: 1 }).toISO()!,
+    maxResults: 250,
+    singleEvents: true,
+    orderBy: 'startTime'
+  });
+  const { busyEventRules } = await getWorkspaceSettings(teamId);
+  const text = buildAgendaDigestText(result.data.items ?? [], day, preferences, busyEventRules);
+  await client.chat.postMessage({ token: botToken, channel: userId, text });
+}
+
+export async function sendDueAgendaDigests(client: any, baseUrl: string, now: DateTime) {
+  const subscribers = await listUsersWithPreference('digest');
+  for (const { teamId, userId, preferences } of subscribers) {
+    const digest = preferences.digest;
+    if (!digest) continue;
+    const zone = preferences.timezone ?? (process.env.GCAL_TIMEZONE || 'UTC');
+    const local = now.setZone(zone);
+    if (!isDigestDue(digest, local)) continue;
+
+    const deliveryKey = local.toISODate()!;
+    if (!(await claimDelivery(teamId, userId, 'digest', deliveryKey))) continue;
+    try {
+      await sendAgendaDigest(client, baseUrl, teamId, userId, preferences, local.startOf('day'));
+    } catch (error) {
+      console.error('Agenda digest failed', userId, error);
+      await releaseDelivery(teamId, userId, 'digest', deliveryKey);
+    }
+  }
+}
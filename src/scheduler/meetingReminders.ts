@@ -0,0 +1,95 @@
+import { DateTime } from 'luxon';
+import { getCalendarClient } from '../google/oauth';
+import { extractMeetUrl } from '../slack/eventList';
+import { buildAttendeeLabeler, resolveBotToken } from '../slack/rsvpTracker';
+import { claimDelivery, releaseDelivery } from '../store/deliveryStore';
+import { getUserToken } from '../store/tokenStore';
+import { listUsersWithPreference } from '../store/userPreferencesStore';
+
+export function buildMeetingReminderText(
+  event: any,
+  now: DateTime,
+  zone: string,
+  labelOf: (email: string) => string
+) {
+  const start = DateTime.fromISO(event.start.dateTime, { zone });
+  const end = DateTime.fromISO(event.end?.dateTime ?? event.start.dateTime, { zone });
+  const minutesLeft = Math.max(1, Math.round(start.diff(now, 'minutes').minutes));
+  const lines = [
+    `:bell: ${minutesLeft}分後に *${event.summary ?? '(タイトルなし)'}* が始まります (${start.toFormat('HH:mm')}〜${end.toFormat('HH:mm')})`
+  ];
+  const meetUrl = extractMeetUrl(event);
+  if (meetUrl) {
+    lines.push(`<${meetUrl}|:video_camera: 会議に参加>`);
+  }
+  const others = (event.attendees ?? [])
+    .filter((attendee: any) => !attendee.self && !attendee.resource && attendee.email)
+    .map((attendee: any) => labelOf(attendee.email));
+  if (others.length > 0) {
+    lines.push(`参加者: ${others.join(' ')}`);
+  }
+  return lines.join('\n');
+}
+
+async function sendUserMeetingReminders(
+  client: any,
+  baseUrl: string,
+  teamId: string,
+  userId: string,
+  minutesBefore: number,
+  zone: string,
+  now: DateTime
+) {
+  const token = await getUserToken(teamId, userId);
+  const botToken = await resolveBotToken(teamId);
+  if (!token?.refreshToken || !botToken) return;
+
+  // Everything starting within the reminder window; reminders missed while the server was down
+  // still go out as long as the event has not started.
+  const calendar = getCalendarClient(baseUrl, token.refreshToken);
+  const result = await calendar.events.list({
+    calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+    timeMin: now.toISO()!,
+    timeMax: now.plus({ minutes: minutesBefore }).toISO()!,
+    maxResults: 50,
+    singleEvents: true,
+    orderBy: 'startTime'
+  });
+
+  let labelOf: ((email: string) => string) | undefined;
+  for (const event of result.data.items ?? []) {
+    if (!event.id || !event.start?.dateTime || event.status === 'cancelled') continue;
+    if (DateTime.fromISO(event.start.dateTime) <= now) continue;
+    const self = event.attendees?.find((attendee) => attendee.self);
+    if (self?.responseStatus === 'declined') continue;
+
+    // Keyed by start time as well, so a moved event is reminded again at its new time.
+    const deliveryKey = `${event.id}:${event.start.dateTime}`;
+    if (!(await claimDelivery(teamId, userId, 'meeting-reminder', deliveryKey))) continue;
+    try {
+      labelOf ??= await buildAttendeeLabeler(teamId);
+      await client.chat.postMessage({
+        token: botToken,
+        channel: userId,
+        text: buildMeetingReminderText(event, now.setZone(zone), zone, labelOf)
+      });
+    } catch (error) {
+      await releaseDelivery(teamId, userId, 'meeting-reminder', deliveryKey);
+      throw error;
+    }
+  }
+}
+
+export async function sendDueMeetingReminders(client: any, baseUrl: string, now: DateTime) {
+  const subscribers = await listUsersWithPreference('meetingReminderMinutes');
+  for (const { teamId, userId, preferences } of subscribers) {
+    const minutesBefore = preferences.meetingReminderMinutes;
+    if (!minutesBefore || minutesBefore <= 0) continue;
+    const zone = preferences.timezone ?? (process.env.GCAL_TIMEZONE || 'UTC');
+    try {
+      await sendUserMeetingReminders(client, baseUrl, teamId, userId, minutesBefore, zone, now);
+    } catch (error) {
+      console.error('Meeting reminders failed', userId, error);
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { DateTime } from 'luxon';
+
+// A job decides for itself what is due at `now`, so ticks may arrive late, early or twice.
+export type ScheduledJob = (now: DateTime) => Promise<void>;
+
+const TICK_SECONDS = Number(process.env.GCAL_SCHEDULER_TICK_SECONDS ?? 60);
+
+const jobs = new Map<string, ScheduledJob>();
+const runningJobs = new Set<string>();
+
+export function registerJob(name: string, job: ScheduledJob) {
+  jobs.set(name, job);
+}
+
+export async function runScheduledJobs(now = DateTime.now()): Promise<Record<string, 'ok' | 'failed' | 'skipped'>> {
+  const results: Record<string, 'ok' | 'failed' | 'skipped'> = {};
+  for (const [name, job] of jobs) {
+    // Skip rather than overlap when the previous tick is still running this job.
+    if (runningJobs.has(name)) {
+      results[name] = 'skipped';
+      continue;
+    }
+    runningJobs.add(name);
+    try {
+      await job(now);
+      results[name] = 'ok';
+    } catch (error) {
+      console.error('Scheduled job failed', name, error);
+      results[name] = 'failed';
+    } finally {
+      runningJobs.delete(name);
+    }
+  }
+  return results;
+}
+
+// Long-running servers tick in-process; serverless deployments set the interval to 0 and use the cron route.
+export function startScheduler() {
+  if (!(TICK_SECONDS > 0)) return;
+  setInterval(() => {
+    void runScheduledJobs();
+  }, TICK_SECONDS * 1000);
+}
+
+// Vercel Cron sends `Authorization: Bearer <CRON_SECRET>`.
+export function isAuthorizedCronRequest(authorization: string | undefined) {
+  const secret = process.env.CRON_SECRET;
+  return !!secret && authorization === `Bearer ${secret}`;
+}
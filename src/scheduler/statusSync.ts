@@ -0,0 +1,123 @@
+import { DateTime } from 'luxon';
+import { getCalendarClient } from '../google/oauth';
+import { getSlackUserToken, removeSlackUserToken, setFocusSnooze } from '../store/slackUserTokenStore';
+import { getUserToken } from '../store/tokenStore';
+import { listUsersWithPreference } from '../store/userPreferencesStore';
+import { getWorkspaceSettings } from '../store/workspaceSettingsStore';
+import { BusyEventRules, isBusyEvent } from '../utils/busyEvents';
+
+// Scopes the sync needs on the member's own user token.
+export const statusSyncUserScopes = ['users.profile:read', 'users.profile:write', 'dnd:read', 'dnd:write'];
+
+type SlackStatus = { text: string; emoji: string };
+
+const meetingStatus: SlackStatus = { text: '会議中', emoji: ':spiral_calendar_pad:' };
+const outOfOfficeStatus: SlackStatus = { text: '休暇中', emoji: ':palm_tree:' };
+const managedStatuses = [meetingStatus, outOfOfficeStatus];
+
+const revokedTokenErrors = ['invalid_auth', 'token_revoked', 'account_inactive', 'missing_scope'];
+
+export function resolveDesiredStatus(events: any[], now: DateTime, rules: BusyEventRules) {
+  const current = events.filter((event) => {
+    if (!event.start?.dateTime || !event.end?.dateTime) return false;
+    return DateTime.fromISO(event.start.dateTime) <= now && now < DateTime.fromISO(event.end.dateTime);
+  });
+  const endOf = (event: any) => DateTime.fromISO(event.end.dateTime);
+  const latestEnd = (list: any[]) => list.reduce((max, event) => (endOf(event) > max ? endOf(event) : max), now);
+
+  const focus = current.filter((event) => event.eventType === 'focusTime' && event.status !== 'cancelled');
+  const outOfOffice = current.filter((event) => event.eventType === 'outOfOffice' && event.status !== 'cancelled');
+  const busy = current.filter((event) => isBusyEvent(event, rules));
+  return {
+    status: outOfOffice.length > 0 ? outOfOfficeStatus : busy.length > 0 ? meetingStatus : null,
+    expiresAt: outOfOffice.length > 0 ? latestEnd(outOfOffice) : latestEnd(busy),
+    focusEnd: focus.length > 0 ? latestEnd(focus) : null
+  };
+}
+
+async function syncUserStatus(
+  client: any,
+  baseUrl: string,
+  teamId: string,
+  userId: string,
+  dndDuringFocus: boolean,
+  now: DateTime
+) {
+  const [token, slackToken] = await Promise.all([getUserToken(teamId, userId), getSlackUserToken(teamId, userId)]);
+  if (!token?.refreshToken || !slackToken) return;
+
+  const calendar = getCalendarClient(baseUrl, token.refreshToken);
+  const result = await calendar.events.list({
+    calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+    timeMin: now.toISO()!,
+    timeMax: now.plus({ minutes: 1 }).toISO()!,
+    maxResults: 50,
+    singleEvents: true
+  });
+  const { busyEventRules } = await getWorkspaceSettings(teamId);
+  const desired = resolveDesiredStatus(result.data.items ?? [], now, busyEventRules);
+
+  const { profile } = await client.users.profile.get({ token: slackToken.token });
+  const currentText: string = profile?.status_text ?? '';
+  const currentEmoji: string = profile?.status_emoji ?? '';
+  const currentExpiration: number = profile?.status_expiration ?? 0;
+  // A status the member set themselves, even an emoji alone, is never overwritten or cleared.
+  const managed =
+    (!currentText && !currentEmoji) ||
+    managedStatuses.some((status) => status.text === currentText && status.emoji === currentEmoji);
+
+  if (managed && desired.status) {
+    const expiration = Math.floor(desired.expiresAt.toSeconds());
+    if (currentText !== desired.status.text || currentExpiration !== expiration) {
+      await client.users.profile.set({
+        token: slackToken.token,
+        profile: { status_text: desired.status.text, status_emoji: desired.status.emoji, status_expiration: expiration }
+      });
+    }
+  } else if (managed && currentText) {
+    // The event ended early or was cancelled before Slack's own expiration kicked in.
+    await client.users.profile.set({
+      token: slackToken.token,
+      profile: { status_text: '', status_emoji: '', status_expiration: 0 }
+    });
+  }
+
+  const focusEnd = dndDuringFocus && desired.focusEnd ? desired.focusEnd.toUTC().toISO()! : null;
+  const ownSnooze = slackToken.focusSnooze;
+  if (!focusEnd && !ownSnooze) return;
+
+  const dnd = await client.dnd.info({ token: slackToken.token });
+  const snoozeIsOurs = !!ownSnooze && dnd.snooze_enabled && dnd.snooze_endtime === ownSnooze.endtime;
+  if (focusEnd && (!dnd.snooze_enabled || (snoozeIsOurs && ownSnooze.focusEnd !== focusEnd))) {
+    // Also re-snoozes when the focus block was moved, shortened or extended.
+    const result = await client.dnd.setSnooze({
+      token: slackToken.token,
+      num_minutes: Math.max(1, Math.ceil(desired.focusEnd!.diff(now, 'minutes').minutes))
+    });
+    await setFocusSnooze(teamId, userId, { endtime: result.snooze_endtime, focusEnd });
+  } else if (!focusEnd && snoozeIsOurs) {
+    // The focus block was deleted or cut short.
+    await client.dnd.endSnooze({ token: slackToken.token });
+    await setFocusSnooze(teamId, userId, null);
+  } else if (ownSnooze && !snoozeIsOurs) {
+    // Our snooze ran out, or the member replaced it with their own.
+    await setFocusSnooze(teamId, userId, null);
+  }
+}
+
+export async function syncSlackStatuses(client: any, baseUrl: string, now: DateTime) {
+  const subscribers = await listUsersWithPreference('statusSync');
+  for (const { teamId, userId, preferences } of subscribers) {
+    if (!preferences.statusSync) continue;
+    try {
+      await syncUserStatus(client, baseUrl, teamId, userId, preferences.statusSync.dndDuringFocus, now);
+    } catch (error: any) {
+      // Drop tokens Slack no longer accepts; the member is asked to re-authorize from /gcal status.
+      if (revokedTokenErrors.includes(error?.data?.error)) {
+        await removeSlackUserToken(teamId, userId);
+        continue;
+      }
+      console.error('Slack status sync failed', userId, error);
+    }
+  }
+}
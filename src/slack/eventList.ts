@@ -0,0 +1,48 @@
+import { DateTime } from 'luxon';
+
+export function extractMeetUrl(event: { hangoutLink?: string | null; conferenceData?: any }) {
+  return (
+    event.hangoutLink ??
+    event.conferenceData?.entryPoints?.find((entry: any) => entry.entryPointType === 'video')?.uri ??
+    undefined
+  );
+}
+
+const rsvpLabels: Record<string, string> = {
+  accepted: '参加',
+  tentative: '仮承諾',
+  declined: '不参加',
+  needsAction: '未回答'
+};
+
+export function formatEventListItem(event: any, zone: string) {
+  const title = `*${event.summary ?? '(タイトルなし)'}*`;
+  let when: string;
+  if (event.start?.date) {
+    // All-day end dates are exclusive.
+    const lastDay = DateTime.fromISO(event.end?.date ?? event.start.date).minus({ days: 1 });
+    const multiDay = lastDay.toISODate()! > event.start.date;
+    when = multiDay ? `終日 (〜${lastDay.setLocale('ja').toFormat('M/d(ccc)')})` : '終日';
+  } else {
+    const start = DateTime.fromISO(event.start?.dateTime ?? '', { zone });
+    const end = DateTime.fromISO(event.end?.dateTime ?? '', { zone });
+    const endLabel = end.hasSame(start, 'day') ? end.toFormat('HH:mm') : end.toFormat('M/d HH:mm');
+    when = `${start.toFormat('HH:mm')}〜${endLabel}`;
+  }
+
+  const details: string[] = [];
+  const self = (event.attendees ?? []).find((attendee: any) => attendee.self);
+  if (event.organizer?.self) {
+    details.push('主催');
+  } else if (self?.responseStatus) {
+    details.push(rsvpLabels[self.responseStatus] ?? self.responseStatus);
+  }
+  if (event.location) {
+    details.push(`:round_pushpin: ${event.location}`);
+  }
+  const meetUrl = extractMeetUrl(event);
+  if (meetUrl) {
+    details.push(`<${meetUrl}|:video_camera: 会議に参加>`);
+  }
+  return [`${when} ${title}`, details.join(' / ')].filter(Boolean).join('\n');
+}
@@ -0,0 +1,149 @@
+import { DateTime } from 'luxon';
+import { getCalendarClient } from '../google/oauth';
+import { slackInstallationStore } from '../store/slackInstallationStore';
+import { getUserToken, listUserTokens } from '../store/tokenStore';
+import { getUserPreferences } from '../store/userPreferencesStore';
+import {
+  listUpcomingTrackedEvents,
+  removeTrackedEvent,
+  TrackedEvent,
+  updateTrackedEvent
+} from '../store/trackedEventStore';
+import { getWorkspaceSettings } from '../store/workspaceSettingsStore';
+
+const POLL_MINUTES = Number(process.env.GCAL_RSVP_POLL_MINUTES ?? 10);
+
+const statusSections: Array<{ status: string; label: string }> = [
+  { status: 'accepted', label: ':white_check_mark: 承諾' },
+  { status: 'tentative', label: ':thinking_face: 仮承諾' },
+  { status: 'declined', label: ':x: 辞退' },
+  { status: 'needsAction', label: ':grey_question: 未回答' }
+];
+
+export async function resolveBotToken(teamId: string): Promise<string | undefined> {
+  if (process.env.SLACK_BOT_TOKEN) return process.env.SLACK_BOT_TOKEN;
+  try {
+    const installation = await slackInstallationStore.fetchInstallation({
+      teamId,
+      enterpriseId: undefined,
+      isEnterpriseInstall: false
+    });
+    return installation.bot?.token;
+  } catch {
+    return undefined;
+  }
+}
+
+// Labels attendees with a Slack mention when they have connected, otherwise by email.
+export async function buildAttendeeLabeler(teamId: string) {
+  const users = await listUserTokens(teamId);
+  const userByEmail = new Map(
+    users.filter((user) => user.email).map((user) => [user.email!.toLowerCase(), user.userId])
+  );
+  return (email: string) => {
+    const userId = userByEmail.get(email.toLowerCase());
+    return userId ? `<@${userId}>` : email;
+  };
+}
+
+function buildSummaryText(tracked: TrackedEvent, statuses: Record<string, string>, zone: string) {
+  const start = DateTime.fromISO(tracked.startAt).setZone(zone).setLocale('ja');
+  const lines = [`*「${tracked.title}」の出欠* (${start.toFormat('M/d(ccc) HH:mm')})`];
+  for (const section of statusSections) {
+    const people = Object.entries(statuses)
+      .filter(([, status]) => status === section.status)
+      .map(([label]) => label);
+    if (people.length > 0) {
+      lines.push(`${section.label}: ${people.join(' ')}`);
+    }
+  }
+  return lines.join('\n');
+}
+
+async function syncTrackedEvent(client: any, baseUrl: string, tracked: TrackedEvent, now: DateTime) {
+  const token = await getUserToken(tracked.teamId, tracked.requesterId);
+  const botToken = await resolveBotToken(tracked.teamId);
+  if (!token?.refreshToken || !botToken) return;
+
+  const calendar = getCalendarClient(baseUrl, token.refreshToken);
+  let event;
+  try {
+    ({ data: event } = await calendar.events.get({
+      calendarId: process.env.GCAL_CALENDAR_ID || 'primary',
+      eventId: tracked.eventId
+    }));
+  } catch (error: any) {
+    const status = error?.response?.status ?? error?.code;
+    if (status === 404 || status === 410) {
+      await removeTrackedEvent(tracked.teamId, tracked.eventId);
+      return;
+    }
+    throw error;
+  }
+  if (event.status === 'cancelled') {
+    await removeTrackedEvent(tracked.teamId, tracked.eventId);
+    return;
+  }
+
+  const labelOf = await buildAttendeeLabeler(tracked.teamId);
+  const statuses: Record<string, string> = {};
+  for (const attendee of event.attendees ?? []) {
+    if (attendee.organizer || attendee.resource || !attendee.email) continue;
+    statuses[labelOf(attendee.email)] = attendee.responseStatus ?? 'needsAction';
+  }
+
+  const preferences = await getUserPreferences(tracked.teamId, tracked.requesterId);
+  const zone = preferences.timezone ?? (process.env.GCAL_TIMEZONE || 'UTC');
+  if (JSON.stringify(statuses) !== JSON.stringify(tracked.lastStatuses ?? {})) {
+    const text = buildSummaryText(tracked, statuses, zone);
+    if (tracked.summaryTs) {
+      await client.chat.update({ token: botToken, channel: tracked.summaryChannel, ts: tracked.summaryTs, text });
+      await updateTrackedEvent(tracked.teamId, tracked.eventId, { lastStatuses: statuses });
+    } else {
+      const response = await client.chat.postMessage({
+        token: botToken,
+        channel: tracked.summaryChannel,
+        thread_ts: tracked.summaryThreadTs,
+        text
+      });
+      // Posting to a user ID opens the DM; updates need the DM's channel ID instead.
+      await updateTrackedEvent(tracked.teamId, tracked.eventId, {
+        lastStatuses: statuses,
+        summaryTs: response.ts,
+        summaryChannel: response.channel ?? tracked.summaryChannel
+      });
+    }
+  }
+
+  const { rsvpNudgeHours } = await getWorkspaceSettings(tracked.teamId);
+  const unanswered = Object.entries(statuses)
+    .filter(([, status]) => status === 'needsAction')
+    .map(([label]) => label);
+  const waitedHours = now.diff(DateTime.fromISO(tracked.createdAt), 'hours').hours;
+  if (rsvpNudgeHours > 0 && !tracked.nudgedAt && unanswered.length > 0 && waitedHours >= rsvpNudgeHours) {
+    await client.chat.postMessage({
+      token: botToken,
+      channel: tracked.requesterId,
+      text: `「${tracked.title}」の招待に ${Math.floor(waitedHours)}時間 未回答の参加者がいます: ${unanswered.join(' ')}`
+    });
+    await updateTrackedEvent(tracked.teamId, tracked.eventId, { nudgedAt: now.toISO()! });
+  }
+}
+
+// Runs from the shared scheduler; within one process polls are spaced at least POLL_MINUTES apart.
+let lastPolledAt: DateTime | undefined;
+
+export async function pollRsvps(client: any, baseUrl: string, now: DateTime) {
+  if (!(POLL_MINUTES > 0)) return;
+  if (lastPolledAt && now < lastPolledAt.plus({ minutes: POLL_MINUTES })) return;
+  lastPolledAt = now;
+
+  const trackedEvents = await listUpcomingTrackedEvents(now.toJSDate());
+  for (const tracked of trackedEvents) {
+    try {
+      await syncTrackedEvent(client, baseUrl, tracked, now);
+    } catch (error) {
+      console.error('RSVP sync failed', tracked.eventId, error);
+    }
+  }
+}
@@ -0,0 +1,299 @@
+import { IANAZone } from 'luxon';
+import { DigestPreferences, getUserPreferences, updateUserPreferences } from '../store/userPreferencesStore';
+import { getWorkspaceSettings, updateWorkspaceSettings } from '../store/workspaceSettingsStore';
+import { getSlackUserToken } from '../store/slackUserTokenStore';
+import { statusSyncUserScopes } from '../scheduler/statusSync';
+import {
+  formatTimePart,
+  isValidTimeRange,
+  normalizeInput,
+  normalizePresetName,
+  parseBuffer,
+  parseDuration,
+  parseTime,
+  parseTimeRange
+} from '../utils/parse';
+import { describeWorkingHours, WeeklyWorkingHours } from '../utils/workingHours';
+import { BusyEventRules, busyEventRuleLabels } from '../utils/busyEvents';
+
+const usageText = [
+  '使い方:',
+  '`/gcal` フォームを開く',
+  '`/gcal preset` 時間長プリセット一覧',
+  '`/gcal preset ランチ=60m` プリセットを登録',
+  '`/gcal preset ランチ=` プリセットを削除',
+  '`/gcal buffer` / `/gcal buffer 10/5` 予定の前後に空ける分数 (ワークスペース既定)',
+  '`/gcal busy` / `/gcal busy tentative=free` 予定ありとして扱う予定の種類 (transparent / declined / tentative / needsAction)',
+  '`/gcal nudge` / `/gcal nudge 48` 未回答の招待を作成者に知らせるまでの時間 (0で無効)',
+  '`/gcal hours` 自分の勤務時間を表示',
+  '`/gcal hours 平日 10:00-19:00` / `/gcal hours 土日 休み` / `/gcal hours clear` 勤務時間を設定',
+  '`/gcal tz America/Los_Angeles` / `/gcal tz clear` 自分のタイムゾーンを設定',
+  '`/gcal digest 8:30` / `/gcal digest 8:30 月水金` / `/gcal digest off` 今日の予定をDMで受け取る (曜日の既定は平日)',
+  '`/gcal remind` / `/gcal remind 10m` / `/gcal remind off` 予定の開始前にSlackでリマインド',
+  '`/gcal status on` / `/gcal status on dnd` / `/gcal status off` 予定に合わせてSlackのステータスを変更 (dnd: 集中時間はおやすみモード)'
+].join('\n');
+
+const busyRuleKeys: Record<string, keyof BusyEventRules> = {
+  transparent: 'transparentAsBusy',
+  declined: 'declinedAsBusy',
+  tentative: 'tentativeAsBusy',
+  needsaction: 'needsActionAsBusy'
+};
+
+const weekdayChars = ['月', '火', '水', '木', '金', '土', '日'];
+
+function parseWeekdaySpec(spec: string): number[] | null {
+  if (spec === '平日') return [1, 2, 3, 4, 5];
+  if (spec === '土日' || spec === '週末') return [6, 7];
+  if (spec === '毎日' || spec === '全日') return [1, 2, 3, 4, 5, 6, 7];
+  const chars = spec.replace(/曜日?/g, '');
+  if (!chars || !Array.from(chars).every((char) => weekdayChars.includes(char))) return null;
+  return [...new Set(Array.from(chars).map((char) => weekdayChars.indexOf(char) + 1))];
+}
+
+function describeWeekdays(weekdays: number[]) {
+  const sorted = [...weekdays].sort((a, b) => a - b);
+  if (sorted.join() === '1,2,3,4,5') return '平日';
+  if (sorted.join() === '1,2,3,4,5,6,7') return '毎日';
+  return sorted.map((weekday) => weekdayChars[weekday - 1]).join('');
+}
+
+async function runPresetCommand(teamId: string, args: string) {
+  const settings = await getWorkspaceSettings(teamId);
+  if (!args) {
+    const entries = Object.entries(settings.durationPresets);
+    if (entries.length === 0) return '時間長プリセットは未登録です。';
+    return ['時間長プリセット:', ...entries.map(([name, minutes]) => `- ${name}: ${minutes}分`)].join('\n');
+  }
+
+  const match = args.match(/^([^=]+)=(.*)$/);
+  if (!match) return usageText;
+  const name = normalizePresetName(match[1]);
+  if (!name) return usageText;
+  // Names such as "__proto__" cannot be stored as plain object keys.
+  if (name in Object.prototype) return `「${name}」はプリセット名に使えません。`;
+
+  const presets = { ...settings.durationPresets };
+  if (!match[2].trim()) {
+    if (!Object.prototype.hasOwnProperty.call(presets, name)) return `プリセット「${name}」は登録されていません。`;
+    delete presets[name];
+    await updateWorkspaceSettings(teamId, { durationPresets: presets });
+    return `プリセット「${name}」を削除しました。`;
+  }
+
+  const minutes = parseDuration(match[2]);
+  if (!minutes) return `時間長を解釈できませんでした: ${match[2].trim()}`;
+  if (parseDuration(name) !== null) return `「${name}」は時間長として解釈されるため名前に使えません。`;
+  presets[name] = minutes;
+  await updateWorkspaceSettings(teamId, { durationPresets: presets });
+  return `プリセット「${name}」を ${minutes}分 で登録しました。`;
+}
+
+async function runBufferCommand(teamId: string, args: string) {
+  const settings = await getWorkspaceSettings(teamId);
+  if (!args) {
+    return `予定の前後の余白: 前${settings.bufferBeforeMinutes}分 / 後${settings.bufferAfterMinutes}分`;
+  }
+  const buffer = parseBuffer(args);
+  if (!buffer) return `余白を解釈できませんでした: ${args}`;
+  await updateWorkspaceSettings(teamId, {
+    bufferBeforeMinutes: buffer.before,
+    bufferAfterMinutes: buffer.after
+  });
+  return `予定の前後の余白を 前${buffer.before}分 / 後${buffer.after}分 に設定しました。`;
+}
+
+function describeBusyEventRules(rules: BusyEventRules) {
+  return (Object.keys(busyEventRuleLabels) as Array<keyof BusyEventRules>).map(
+    (key) => `- ${busyEventRuleLabels[key]}: ${rules[key] ? '予定あり' : '空き'}`
+  );
+}
+
+async function runBusyCommand(teamId: string, args: string) {
+  const settings = await getWorkspaceSettings(teamId);
+  if (!args) {
+    return ['空き時間の判定:', ...describeBusyEventRules(settings.busyEventRules)].join('\n');
+  }
+
+  const rules = { ...settings.busyEventRules };
+  for (const assignment of args.split(/\s+/)) {
+    const match = assignment.match(/^([^=]+)=(.+)$/);
+    const key = match ? busyRuleKeys[match[1].toLowerCase()] : undefined;
+    if (!match || !key) return usageText;
+    const value = match[2].toLowerCase();
+    if (value === 'busy' || value === '予定あり') {
+      rules[key] = true;
+    } else if (value === 'free' || value === '空き') {
+      rules[key] = false;
+    } else {
+      return `busy または free を指定してください: ${assignment}`;
+    }
+  }
+  await updateWorkspaceSettings(teamId, { busyEventRules: rules });
+  return ['空き時間の判定を更新しました。', ...describeBusyEventRules(rules)].join('\n');
+}
+
+async function runNudgeCommand(teamId: string, args: string) {
+  const settings = await getWorkspaceSettings(teamId);
+  if (!args) {
+    return settings.rsvpNudgeHours > 0
+      ? `未回答の招待は ${settings.rsvpNudgeHours}時間後 に作成者へ知らせます。`
+      : '未回答の招待の通知は無効です。';
+  }
+  const match = normalizeInput(args).match(/^(\d+)(?:h|時間)?$/);
+  if (!match) return `時間数を解釈できませんでした: ${args}`;
+  const hours = Number(match[1]);
+  await updateWorkspaceSettings(teamId, { rsvpNudgeHours: hours });
+  return hours > 0 ? `未回答の招待を ${hours}時間後 に知らせます。` : '未回答の招待の通知を無効にしました。';
+}
+
+async function runHoursCommand(teamId: string, userId: string, args: string) {
+  const preferences = await getUserPreferences(teamId, userId);
+  if (!args) {
+    return ['勤務時間:', ...describeWorkingHours(preferences.workingHours)].join('\n');
+  }
+  if (args === 'clear' || args === 'リセット') {
+    await updateUserPreferences(teamId, userId, { workingHours: undefined });
+    return '勤務時間の設定を削除しました。';
+  }
+
+  const [spec = '', ...rest] = normalizeInput(args).split(/\s+/);
+  const weekdays = parseWeekdaySpec(spec);
+  const value = rest.join('');
+  if (!weekdays || !value) return usageText;
+
+  let range: WeeklyWorkingHours[string];
+  if (value === '休み' || value === 'なし' || value === 'off') {
+    range = null;
+  } else {
+    const parsed = parseTimeRange(value);
+    if (!parsed || !isValidTimeRange(parsed)) return `時間範囲を解釈できませんでした: ${value}`;
+    range = parsed;
+  }
+
+  const workingHours: WeeklyWorkingHours = { ...preferences.workingHours };
+  for (const weekday of weekdays) {
+    workingHours[String(weekday)] = range;
+  }
+  await updateUserPreferences(teamId, userId, { workingHours });
+  return ['勤務時間を更新しました。', ...describeWorkingHours(workingHours)].join('\n');
+}
+
+async function runTimezoneCommand(teamId: string, userId: string, args: string) {
+  const preferences = await getUserPreferences(teamId, userId);
+  if (!args) {
+    return `タイムゾーン: ${preferences.timezone ?? `${process.env.GCAL_TIMEZONE || 'UTC'} (既定)`}`;
+  }
+  if (args === 'clear' || args === 'リセット') {
+    await updateUserPreferences(teamId, userId, { timezone: undefined });
+    return 'タイムゾーンの設定を削除しました。';
+  }
+  if (!IANAZone.isValidZone(args)) return `タイムゾーンを解釈できませんでした: ${args}`;
+  await updateUserPreferences(teamId, userId, { timezone: args });
+  return `タイムゾーンを ${args} に設定しました。`;
+}
+
+function describeDigest(digest?: DigestPreferences) {
+  if (!digest) return '今日の予定のDM: 無効';
+  return `今日の予定のDM: ${describeWeekdays(digest.weekdays)} ${formatTimePart(digest.time)}`;
+}
+
+async function runDigestCommand(teamId: string, userId: string, args: string) {
+  const preferences = await getUserPreferences(teamId, userId);
+  if (!args) return describeDigest(preferences.digest);
+  if (args === 'off' || args === '無効' || args === 'clear') {
+    await updateUserPreferences(teamId, userId, { digest: undefined });
+    return '今日の予定のDMを無効にしました。';
+  }
+
+  const [timeSpec = '', spec] = normalizeInput(args).split(/\s+/);
+  const time = parseTime(timeSpec);
+  if (!time) return `時刻を解釈できませんでした: ${timeSpec}`;
+  const weekdays = spec ? parseWeekdaySpec(spec) : preferences.digest?.weekdays ?? [1, 2, 3, 4, 5];
+  if (!weekdays) return `曜日を解釈できませんでした: ${spec}`;
+
+  const digest: DigestPreferences = { time, weekdays };
+  await updateUserPreferences(teamId, userId, { digest });
+  return `${describeDigest(digest)} に設定しました。`;
+}
+
+// Longer windows would mostly remind about meetings the user already saw in the agenda.
+const MAX_REMINDER_MINUTES = 24 * 60;
+
+async function runRemindCommand(teamId: string, userId: string, args: string) {
+  const preferences = await getUserPreferences(teamId, userId);
+  if (!args) {
+    return preferences.meetingReminderMinutes
+      ? `予定の ${preferences.meetingReminderMinutes}分前 にSlackでリマインドします。`
+      : '予定のリマインドは無効です。';
+  }
+  if (args === 'off' || args === '無効' || args === 'clear') {
+    await updateUserPreferences(teamId, userId, { meetingReminderMinutes: undefined });
+    return '予定のリマインドを無効にしました。';
+  }
+  const minutes = parseDuration(args);
+  if (!minutes || minutes > MAX_REMINDER_MINUTES) return `分数を解釈できませんでした: ${args}`;
+  await updateUserPreferences(teamId, userId, { meetingReminderMinutes: minutes });
+  return `予定の ${minutes}分前 にSlackでリマインドします。`;
+}
+
+async function runStatusCommand(teamId: string, userId: string, args: string, baseUrl: string) {
+  const preferences = await getUserPreferences(teamId, userId);
+  const [action = '', option] = args.toLowerCase().split(/\s+/);
+  if (!action) {
+    if (!preferences.statusSync) return 'Slackステータスの連動: 無効';
+    return `Slackステータスの連動: 有効 (集中時間のおやすみモード: ${preferences.statusSync.dndDuringFocus ? '有効' : '無効'})`;
+  }
+  if (action === 'off' || action === '無効') {
+    await updateUserPreferences(teamId, userId, { statusSync: undefined });
+    return 'Slackステータスの連動を無効にしました。';
+  }
+  if (action !== 'on' && action !== '有効') return usageText;
+  // Single-workspace mode has no installer, so there is no way to obtain member tokens.
+  if (process.env.SLACK_BOT_TOKEN) return 'この環境ではSlackステータスの連動を利用できません。';
+
+  const dndDuringFocus = option === 'dnd' || option === 'おやすみ';
+  await updateUserPreferences(teamId, userId, { statusSync: { dndDuringFocus } });
+  const lines = [
+    `Slackステータスの連動を有効にしました${dndDuringFocus ? ' (集中時間はおやすみモード)' : ''}。`
+  ];
+  const userToken = await getSlackUserToken(teamId, userId);
+  if (!userToken || !statusSyncUserScopes.every((scope) => userToken.scopes.includes(scope))) {
+    lines.push(`ステータスを変更する権限が必要です: <${baseUrl}/slack/install|こちら> から許可してください。`);
+  }
+  return lines.join('\n');
+}
+
+export async function runSettingsCommand(
+  teamId: string,
+  userId: string,
+  text: string,
+  baseUrl: string
+): Promise<string> {
+  const trimmed = text.trim();
+  const [subcommand = ''] = trimmed.split(/\s+/);
+  const args = trimmed.slice(subcommand.length).trim();
+
+  switch (subcommand) {
+    case 'preset':
+      return runPresetCommand(teamId, args);
+    case 'buffer':
+      return runBufferCommand(teamId, args);
+    case 'busy':
+      return runBusyCommand(teamId, args);
+    case 'nudge':
+      return runNudgeCommand(teamId, args);
+    case 'hours':
+      return runHoursCommand(teamId, userId, args);
+    case 'tz':
+      return runTimezoneCommand(teamId, userId, args);
+    case 'digest':
+      return runDigestCommand(teamId, userId, args);
+    case 'remind':
+      return runRemindCommand(teamId, userId, args);
+    case 'status':
+      return runStatusCommand(teamId, userId, args, baseUrl);
+    default:
+      return usageText;
+  }
+}
@@ -1,7 +1,12 @@
+import { DateTime } from 'luxon';
 import { colorNameFromId, colorOptions } from '../config/colors';
+import { PreferredTime, preferredTimeOptions } from '../utils/slotScoring';
+import { isRecurrenceFrequency, RecurrenceFrequency, RecurrenceRule, recurrenceOptions } from '../utils/recurrence';
+import { Reminder } from '../utils/parse';
 
-export type GcalFormMode = 'create' | 'free' | 'request' | 'list';
+export type GcalFormMode = 'create' | 'free' | 'request' | 'list' | 'edit';
 export type GcalRequestMode = 'fixed' | 'auto';
+export type SendUpdates = 'all' | 'externalOnly' | 'none';
 
 export type GcalFormData = {
   mode: GcalFormMode;
@@ -13,7 +18,43 @@ export type GcalFormData = {
   dateRange?: string;
   timeRange?: string;
   attendees?: string[];
+  optionalAttendees?: string[];
   colorId?: string;
+  recurrence?: RecurrenceFrequency;
+  recurrenceEnd?: string;
+  includeHolidays?: boolean;
+  buffer?: string;
+  granularity?: string;
+  preferredTime?: PreferredTime;
+  eventId?: string;
+  addMeet?: boolean;
+  location?: string;
+  description?: string;
+  reminders?: string;
+  allDay?: boolean;
+};
+
+export type EditFormData = {
+  title?: string;
+  date?: string;
+  time?: string;
+  duration?: string;
+  colorId?: string;
+  attendees: string[];
+  sendUpdates: SendUpdates;
+};
+
+// Current state of the event being edited, kept in the edit modal's private_metadata.
+export type EditPayload = {
+  teamId: string;
+  requesterId: string;
+  eventId: string;
+  timeZone: string;
+  title: string;
+  startISO: string;
+  durationMinutes: number;
+  colorId?: string;
+  attendeeIds: string[];
 };
 
 export type PreviewPayload =
@@ -23,8 +64,16 @@ export type PreviewPayload =
       title: string;
       startISO: string;
       durationMinutes: number;
+      // Inclusive ISO dates; set for all-day events, which ignore startISO's time of day.
+      allDayRange?: { startDate: string; endDate: string };
       colorId?: string;
+      recurrence?: RecurrenceRule;
+      timeZone?: string;
       requesterId: string;
+      addMeet?: boolean;
+      location?: string;
+      description?: string;
+      reminders?: Reminder[];
     }
   | {
       kind: 'free';
@@ -34,6 +83,7 @@ export type PreviewPayload =
       requesterId: string;
       durationMinutes: number;
       slotOptions: Array<{ label: string; value: string }>;
+      optionalAttendeeIds?: string[];
     }
   | {
       kind: 'request';
@@ -42,10 +92,57 @@ export type PreviewPayload =
       startISO: string;
       durationMinutes: number;
       colorId?: string;
+      recurrence?: RecurrenceRule;
+      timeZone?: string;
       requesterId: string;
       attendeeIds: string[];
+      optionalAttendeeIds?: string[];
+      candidates?: Array<{ label: string; startISO: string }>;
+      addMeet?: boolean;
+      location?: string;
+      description?: string;
+      reminders?: Reminder[];
+    }
+  | {
+      kind: 'edit';
+      teamId?: string;
+      requesterId: string;
+      eventId: string;
+      timeZone: string;
+      title: string;
+      startISO: string;
+      durationMinutes: number;
+      colorId?: string;
+      changedFields: Array<'title' | 'time' | 'color'>;
+      addedAttendeeIds: string[];
+      removedAttendeeIds: string[];
+      sendUpdates: SendUpdates;
     };
 
+const modeOptions: Array<{ label: string; value: GcalFormMode }> = [
+  { label: '予定作成', value: 'create' },
+  { label: '空き時間', value: 'free' },
+  { label: '予定リクエスト', value: 'request' },
+  { label: '予定一覧', value: 'list' },
+  { label: '予定変更', value: 'edit' }
+];
+
+export const sendUpdatesOptions: Array<{ label: string; value: SendUpdates }> = [
+  { label: '全員に通知', value: 'all' },
+  { label: '外部ゲストのみ通知', value: 'externalOnly' },
+  { label: '通知しない', value: 'none' }
+];
+
+export const granularityOptions = [
+  { label: '空き枠ごと (刻みなし)', value: '0' },
+  { label: '15分', value: '15' },
+  { label: '30分', value: '30' },
+  { label: '60分', value: '60' }
+];
+
+const allDayOption = { text: { type: 'plain_text', text: '終日の予定 (複数日可)' }, value: 'all_day' };
+const meetOption = { text: { type: 'plain_text', text: 'Meet を付ける' }, value: 'meet' };
+
 function getStateValue(state: Record<string, Record<string, any>>, blockId: string, actionId: string) {
   return state[blockId]?.[actionId];
 }
@@ -67,13 +164,40 @@ export function parseFormState(state: Record<string, Record<string, any>>) {
     attendeesSelect?.selected_users ??
     (attendeesSelect?.selected_options ?? []).map((opt: any) => opt.value) ??
     [];
+  const optionalAttendees = (
+    getStateValue(state, 'optional_attendees_block', 'optional_attendees_select')?.selected_options ?? []
+  ).map((opt: any) => opt.value as string);
   const colorId = getStateValue(state, 'color_block', 'color_select')?.selected_option?.value;
+  const recurrenceValue = getStateValue(state, 'recurrence_block', 'recurrence_select')?.selected_option?.value;
+  const recurrence = isRecurrenceFrequency(recurrenceValue) ? recurrenceValue : undefined;
+  const recurrenceEnd = getStateValue(state, 'recurrence_end_block', 'recurrence_end_input')?.value?.trim();
+  const buffer = getStateValue(state, 'buffer_block', 'buffer_input')?.value?.trim();
+  const granularity = getStateValue(state, 'granularity_block', 'granularity_select')?.selected_option?.value;
+  const preferredTime = getStateValue(state, 'preferred_time_block', 'preferred_time_select')?.selected_option
+    ?.value as PreferredTime | undefined;
+  const includeHolidays = (
+    getStateValue(state, 'holiday_block', 'holiday_toggle')?.selected_options ?? []
+  ).some((opt: any) => opt.value === 'include');
+  const eventId = getStateValue(state, 'event_block', 'event_select')?.selected_option?.value;
+  const addMeet = (getStateValue(state, 'meet_block', 'meet_toggle')?.selected_options ?? []).some(
+    (opt: any) => opt.value === 'meet'
+  );
+  const location = getStateValue(state, 'location_block', 'location_input')?.value?.trim() || undefined;
+  const description = getStateValue(state, 'description_block', 'description_input')?.value?.trim() || undefined;
+  const reminders = getStateValue(state, 'reminders_block', 'reminders_input')?.value?.trim() || undefined;
+  const allDay = (getStateValue(state, 'all_day_block', 'all_day_toggle')?.selected_options ?? []).some(
+    (opt: any) => opt.value === 'all_day'
+  );
 
   if (mode === 'create') {
     if (!title) errors.title_block = 'タイトルは必須です。';
-    if (!date) errors.date_block = '日付は必須です。';
-    if (!time) errors.time_block = '時間は必須です。';
-    if (!duration) errors.duration_block = '時間長は必須です。';
+    if (allDay) {
+      if (!dateRange) errors.date_range_block = '期間は必須です。';
+    } else {
+      if (!date) errors.date_block = '日付は必須です。';
+      if (!time) errors.time_block = '時間は必須です。';
+      if (!duration) errors.duration_block = '時間長は必須です。';
+    }
   }
 
   if (mode === 'free') {
@@ -81,12 +205,18 @@ export function parseFormState(state: Record<string, Record<string, any>>) {
     if (!timeRange) errors.time_range_block = '時間範囲は必須です。';
     if (!duration) errors.duration_block = '時間長は必須です。';
     if (!attendees || attendees.length === 0) errors.attendees_block = '参照ユーザーを選択してください。';
+    if (optionalAttendees.some((id: string) => attendees?.includes(id))) {
+      errors.optional_attendees_block = '必須参加者と重複しています。';
+    }
   }
 
   if (mode === 'request') {
     if (!title) errors.title_block = 'タイトルは必須です。';
     if (!duration) errors.duration_block = '時間長は必須です。';
     if (!attendees || attendees.length === 0) errors.attendees_block = '参加者を選択してください。';
+    if (optionalAttendees.some((id: string) => attendees?.includes(id))) {
+      errors.optional_attendees_block = '必須参加者と重複しています。';
+    }
     if (requestMode === 'fixed') {
       if (!date) errors.date_block = '日付は必須です。';
       if (!time) errors.time_block = '時間は必須です。';
@@ -96,6 +226,11 @@ export function parseFormState(state: Record<string, Record<string, any>>) {
     }
   }
 
+  if (mode === 'edit') {
+    // The picker is omitted when there is nothing to edit, so report on the mode select instead.
+    if (!eventId) errors[state.event_block ? 'event_block' : 'mode_block'] = '変更する予定を選択してください。';
+  }
+
   return {
     data: {
       mode,
@@ -107,7 +242,20 @@ export function parseFormState(state: Record<string, Record<string, any>>) {
       dateRange,
       timeRange,
       attendees,
-      colorId
+      optionalAttendees,
+      colorId,
+      recurrence,
+      recurrenceEnd,
+      includeHolidays,
+      buffer,
+      granularity,
+      preferredTime,
+      eventId,
+      addMeet,
+      location,
+      description,
+      reminders,
+      allDay
     } as GcalFormData,
     errors
   };
@@ -120,13 +268,15 @@ export function buildFormView(
   data: Partial<GcalFormData> = {},
   connection?: { connected: boolean; email?: string },
   attendeeOptions?: Array<{ text: { type: 'plain_text'; text: string }; value: string }>,
-  viewId?: string
+  viewId?: string,
+  eventOptions?: Array<{ label: string; value: string }>
 ) {
   const connectUrl = `${baseUrl}/oauth/start?team=${encodeURIComponent(teamId)}&user=${encodeURIComponent(
     userId
   )}${viewId ? `&view=${encodeURIComponent(viewId)}` : ''}`;
   const mode: GcalFormMode = data.mode ?? 'create';
   const requestMode: GcalRequestMode = data.requestMode ?? 'fixed';
+  const allDay = mode === 'create' && !!data.allDay;
   const blocks: any[] = [
     {
       type: 'section',
@@ -144,6 +294,12 @@ export function buildFormView(
               text: { type: 'plain_text', text: 'Google再連携' },
               url: connectUrl
             },
+            {
+              type: 'button',
+              action_id: 'gcal_calendar_settings_open',
+              text: { type: 'plain_text', text: '参照カレンダー' },
+              value: 'calendars'
+            },
             {
               type: 'button',
               action_id: 'gcal_disconnect',
@@ -178,19 +334,43 @@ export function buildFormView(
         type: 'static_select',
         action_id: 'mode_select',
         initial_option: {
-          text: { type: 'plain_text', text: mode === 'create' ? '予定作成' : mode === 'free' ? '空き時間' : mode === 'request' ? '予定リクエスト' : '予定一覧' },
+          text: { type: 'plain_text', text: modeOptions.find((opt) => opt.value === mode)?.label ?? '予定作成' },
           value: mode
         },
-        options: [
-          { text: { type: 'plain_text', text: '予定作成' }, value: 'create' },
-          { text: { type: 'plain_text', text: '空き時間' }, value: 'free' },
-          { text: { type: 'plain_text', text: '予定リクエスト' }, value: 'request' },
-          { text: { type: 'plain_text', text: '予定一覧' }, value: 'list' }
-        ]
+        options: modeOptions.map((opt) => ({
+          text: { type: 'plain_text', text: opt.label },
+          value: opt.value
+        }))
       }
     }
   ];
 
+  if (mode === 'edit') {
+    const options = (eventOptions ?? []).map((opt) => ({
+      text: { type: 'plain_text', text: opt.label },
+      value: opt.value
+    }));
+    if (options.length === 0) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: '直近に変更できる予定がありません。' }
+      });
+    } else {
+      blocks.push({
+        type: 'input',
+        block_id: 'event_block',
+        label: { type: 'plain_text', text: '変更する予定' },
+        element: {
+          type: 'static_select',
+          action_id: 'event_select',
+          placeholder: { type: 'plain_text', text: '予定を選択' },
+          options,
+          initial_option: options.find((opt) => opt.value === data.eventId)
+        }
+      });
+    }
+  }
+
   if (mode === 'request') {
     blocks.push({
       type: 'input',
@@ -228,7 +408,23 @@ export function buildFormView(
     });
   }
 
-  if (mode === 'create' || (mode === 'request' && requestMode === 'fixed')) {
+  if (mode === 'create') {
+    blocks.push({
+      type: 'input',
+      block_id: 'all_day_block',
+      optional: true,
+      dispatch_action: true,
+      label: { type: 'plain_text', text: '終日' },
+      element: {
+        type: 'checkboxes',
+        action_id: 'all_day_toggle',
+        options: [allDayOption],
+        initial_options: allDay ? [allDayOption] : undefined
+      }
+    });
+  }
+
+  if ((mode === 'create' && !allDay) || (mode === 'request' && requestMode === 'fixed')) {
     blocks.push({
       type: 'input',
       block_id: 'date_block',
@@ -238,7 +434,7 @@ export function buildFormView(
         type: 'plain_text_input',
         action_id: 'date_input',
         initial_value: data.date ?? '',
-        placeholder: { type: 'plain_text', text: '例: 3/1 または 2026-03-01' }
+        placeholder: { type: 'plain_text', text: '例: 3/1 / 2026-03-01 / 明日 / 来週火曜' }
       }
     });
     blocks.push({
@@ -250,22 +446,25 @@ export function buildFormView(
         type: 'plain_text_input',
         action_id: 'time_input',
         initial_value: data.time ?? '',
-        placeholder: { type: 'plain_text', text: '例: 13:00' }
+        placeholder: { type: 'plain_text', text: '例: 13:00 / 15時半 / 午後3時 / 3pm' }
       }
     });
   }
 
-  if (mode === 'free' || (mode === 'request' && requestMode === 'auto') || mode === 'list') {
+  if (mode === 'free' || (mode === 'request' && requestMode === 'auto') || mode === 'list' || allDay) {
     blocks.push({
       type: 'input',
       block_id: 'date_range_block',
       optional: mode === 'list',
-      label: { type: 'plain_text', text: '日付範囲 (期間)' },
+      label: { type: 'plain_text', text: allDay ? '期間 (終日)' : '日付範囲 (期間)' },
       element: {
         type: 'plain_text_input',
         action_id: 'date_range_input',
         initial_value: data.dateRange ?? '',
-        placeholder: { type: 'plain_text', text: '例: 3/1-3/5' }
+        placeholder: {
+          type: 'plain_text',
+          text: allDay ? '例: 3/10-3/12 / 明日 / 来週' : '例: 3/1-3/5 / 来週 平日のみ / 3/3,3/5 / 除外:3/4'
+        }
       }
     });
   }
@@ -280,22 +479,96 @@ export function buildFormView(
         type: 'plain_text_input',
         action_id: 'time_range_input',
         initial_value: data.timeRange ?? '',
-        placeholder: { type: 'plain_text', text: '例: 09:00-18:00' }
+        placeholder: { type: 'plain_text', text: '例: 09:00-18:00 / 9時〜18時' }
       }
     });
   }
 
-  if (mode === 'create' || mode === 'free' || mode === 'request') {
+  if (mode === 'free' || (mode === 'request' && requestMode === 'auto')) {
+    blocks.push({
+      type: 'input',
+      block_id: 'buffer_block',
+      optional: true,
+      label: { type: 'plain_text', text: '予定の前後の余白 (分)' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'buffer_input',
+        initial_value: data.buffer ?? '',
+        placeholder: { type: 'plain_text', text: '例: 10 / 10/5 (前/後) 空欄でワークスペース既定' }
+      }
+    });
+    const includeOption = { text: { type: 'plain_text', text: '祝日も候補に含める' }, value: 'include' };
+    blocks.push({
+      type: 'input',
+      block_id: 'holiday_block',
+      optional: true,
+      label: { type: 'plain_text', text: '祝日' },
+      element: {
+        type: 'checkboxes',
+        action_id: 'holiday_toggle',
+        options: [includeOption],
+        initial_options: data.includeHolidays ? [includeOption] : undefined
+      }
+    });
+  }
+
+  if ((mode === 'create' && !allDay) || mode === 'free' || mode === 'request') {
     blocks.push({
       type: 'input',
       block_id: 'duration_block',
       optional: false,
-      label: { type: 'plain_text', text: '時間長 (分 or 30m)' },
+      label: { type: 'plain_text', text: '時間長' },
       element: {
         type: 'plain_text_input',
         action_id: 'duration_input',
         initial_value: data.duration ?? '',
-        placeholder: { type: 'plain_text', text: '例: 30m or 60' }
+        placeholder: { type: 'plain_text', text: '例: 30m / 1時間半 / 90分 / プリセット名' }
+      }
+    });
+  }
+
+  if (mode === 'request' && requestMode === 'auto') {
+    const selectedPreferredTime =
+      preferredTimeOptions.find((opt) => opt.value === data.preferredTime) ?? preferredTimeOptions[0];
+    blocks.push({
+      type: 'input',
+      block_id: 'preferred_time_block',
+      optional: true,
+      label: { type: 'plain_text', text: '希望の時間帯' },
+      element: {
+        type: 'static_select',
+        action_id: 'preferred_time_select',
+        initial_option: {
+          text: { type: 'plain_text', text: selectedPreferredTime.label },
+          value: selectedPreferredTime.value
+        },
+        options: preferredTimeOptions.map((opt) => ({
+          text: { type: 'plain_text', text: opt.label },
+          value: opt.value
+        }))
+      }
+    });
+  }
+
+  if (mode === 'free') {
+    const selectedGranularity =
+      granularityOptions.find((opt) => opt.value === data.granularity) ?? granularityOptions[2];
+    blocks.push({
+      type: 'input',
+      block_id: 'granularity_block',
+      optional: true,
+      label: { type: 'plain_text', text: '候補の開始時刻の刻み' },
+      element: {
+        type: 'static_select',
+        action_id: 'granularity_select',
+        initial_option: {
+          text: { type: 'plain_text', text: selectedGranularity.label },
+          value: selectedGranularity.value
+        },
+        options: granularityOptions.map((opt) => ({
+          text: { type: 'plain_text', text: opt.label },
+          value: opt.value
+        }))
       }
     });
   }
@@ -305,7 +578,7 @@ export function buildFormView(
       type: 'input',
       block_id: 'attendees_block',
       optional: false,
-      label: { type: 'plain_text', text: '参加者 (空き時間/招待)' },
+      label: { type: 'plain_text', text: '必須参加者 (空き時間/招待)' },
       element: {
         type: 'multi_static_select',
         action_id: 'attendees_select',
@@ -317,6 +590,24 @@ export function buildFormView(
         }))
       }
     });
+    blocks.push({
+      type: 'input',
+      block_id: 'optional_attendees_block',
+      optional: true,
+      label: { type: 'plain_text', text: '任意参加者 (空いている人が多い順に提案)' },
+      element: {
+        type: 'multi_static_select',
+        action_id: 'optional_attendees_select',
+        placeholder: { type: 'plain_text', text: '任意参加者を選択' },
+        options: attendeeOptions ?? [],
+        initial_options:
+          data.optionalAttendees && data.optionalAttendees.length > 0
+            ? data.optionalAttendees.map(
+                (id) => attendeeOptions?.find((opt) => opt.value === id) ?? { text: { type: 'plain_text', text: id }, value: id }
+              )
+            : undefined
+      }
+    });
   }
 
   if (mode === 'create' || mode === 'request') {
@@ -343,6 +634,92 @@ export function buildFormView(
     });
   }
 
+  if (mode === 'create' || mode === 'request') {
+    blocks.push({
+      type: 'input',
+      block_id: 'location_block',
+      optional: true,
+      label: { type: 'plain_text', text: '場所' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'location_input',
+        initial_value: data.location ?? '',
+        placeholder: { type: 'plain_text', text: '例: 本社 3F 会議室A' }
+      }
+    });
+    blocks.push({
+      type: 'input',
+      block_id: 'description_block',
+      optional: true,
+      label: { type: 'plain_text', text: '説明 / アジェンダ' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'description_input',
+        multiline: true,
+        initial_value: data.description ?? '',
+        placeholder: { type: 'plain_text', text: '招待に載せる説明' }
+      }
+    });
+    blocks.push({
+      type: 'input',
+      block_id: 'reminders_block',
+      optional: true,
+      label: { type: 'plain_text', text: 'リマインダー' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'reminders_input',
+        initial_value: data.reminders ?? '',
+        placeholder: { type: 'plain_text', text: '例: 10分前 / メール 1日前, 通知 30分前 (空欄ならカレンダー既定)' }
+      }
+    });
+    blocks.push({
+      type: 'input',
+      block_id: 'meet_block',
+      optional: true,
+      label: { type: 'plain_text', text: 'ビデオ会議' },
+      element: {
+        type: 'checkboxes',
+        action_id: 'meet_toggle',
+        options: [meetOption],
+        initial_options: data.addMeet ? [meetOption] : undefined
+      }
+    });
+  }
+
+  if ((mode === 'create' && !allDay) || mode === 'request') {
+    const selectedRecurrence = recurrenceOptions.find((opt) => opt.value === data.recurrence);
+    blocks.push({
+      type: 'input',
+      block_id: 'recurrence_block',
+      optional: true,
+      label: { type: 'plain_text', text: '繰り返し' },
+      element: {
+        type: 'static_select',
+        action_id: 'recurrence_select',
+        placeholder: { type: 'plain_text', text: 'なし' },
+        initial_option: selectedRecurrence
+          ? { text: { type: 'plain_text', text: selectedRecurrence.label }, value: selectedRecurrence.value }
+          : undefined,
+        options: [{ label: 'なし', value: 'none' }, ...recurrenceOptions].map((opt) => ({
+          text: { type: 'plain_text', text: opt.label },
+          value: opt.value
+        }))
+      }
+    });
+    blocks.push({
+      type: 'input',
+      block_id: 'recurrence_end_block',
+      optional: true,
+      label: { type: 'plain_text', text: '繰り返しの終了 (終了日 or 回数)' },
+      element: {
+        type: 'plain_text_input',
+        action_id: 'recurrence_end_input',
+        initial_value: data.recurrenceEnd ?? '',
+        placeholder: { type: 'plain_text', text: '例: 3/31 / 10回 (空欄なら終了日なし)' }
+      }
+    });
+  }
+
   return {
     type: 'modal',
     callback_id: 'gcal_form',
@@ -365,6 +742,26 @@ export function buildPreviewView(title: string, body: string, metadata?: Preview
     }
   ];
 
+  if (metadata?.kind === 'request' && metadata.candidates && metadata.candidates.length > 1) {
+    const options = metadata.candidates.map((candidate) => ({
+      text: { type: 'plain_text', text: candidate.label },
+      value: candidate.startISO
+    }));
+    // The preview has no submit button, so the choice lives in an actions block rather than an input.
+    blocks.push({
+      type: 'actions',
+      block_id: 'candidate_block',
+      elements: [
+        {
+          type: 'radio_buttons',
+          action_id: 'candidate_select',
+          options,
+          initial_option: options.find((opt) => opt.value === metadata.startISO) ?? options[0]
+        }
+      ]
+    });
+  }
+
   if (metadata) {
     const elements: any[] = [];
     if (metadata.kind === 'free') {
@@ -379,7 +776,7 @@ export function buildPreviewView(title: string, body: string, metadata?: Preview
       elements.push({
         type: 'button',
         action_id: 'gcal_preview_create',
-        text: { type: 'plain_text', text: '作成/送信' },
+        text: { type: 'plain_text', text: metadata.kind === 'edit' ? '変更を保存' : '作成/送信' },
         style: 'primary',
         value: 'confirm'
       });
@@ -458,16 +855,290 @@ export function buildLoadingView(title: string, body: string) {
   };
 }
 
+export type CancelPayload = {
+  teamId: string;
+  requesterId: string;
+  eventId: string;
+  title: string;
+  whenLabel: string;
+};
+
+// Paging state for list mode. pageTokens[n] is the Google page token that starts page n.
+export type EventListPayload = {
+  teamId: string;
+  requesterId: string;
+  header: string;
+  timeMin: string;
+  timeMax: string;
+  timeZone: string;
+  page: number;
+  pageTokens: string[];
+};
+
+export function buildEventListView(
+  payload: EventListPayload,
+  groups: Array<{ label: string; items: Array<{ text: string; eventId?: string }> }>,
+  hasNextPage: boolean
+) {
+  const blocks: any[] = [
+    {
+      type: 'section',
+      text: { type: 'mrkdwn', text: `*${payload.header}*${payload.page > 0 ? ` (${payload.page + 1}ページ目)` : ''}` }
+    }
+  ];
+  if (groups.length === 0) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: '予定がありません。' } });
+  }
+  for (const group of groups) {
+    blocks.push({ type: 'header', text: { type: 'plain_text', text: group.label } });
+    for (const item of group.items) {
+      blocks.push({
+        type: 'section',
+        text: { type: 'mrkdwn', text: item.text },
+        accessory: item.eventId
+          ? {
+              type: 'button',
+              action_id: 'gcal_cancel_open',
+              text: { type: 'plain_text', text: '取消' },
+              style: 'danger',
+              value: item.eventId
+            }
+          : undefined
+      });
+    }
+  }
+
+  const pager: any[] = [];
+  if (payload.page > 0) {
+    pager.push({
+      type: 'button',
+      action_id: 'gcal_list_prev',
+      text: { type: 'plain_text', text: '前へ' },
+      value: 'prev'
+    });
+  }
+  if (hasNextPage) {
+    pager.push({
+      type: 'button',
+      action_id: 'gcal_list_next',
+      text: { type: 'plain_text', text: '次へ' },
+      value: 'next'
+    });
+  }
+  if (pager.length > 0) {
+    blocks.push({ type: 'actions', elements: pager });
+  }
+
+  return {
+    type: 'modal',
+    title: { type: 'plain_text', text: 'GCal' },
+    close: { type: 'plain_text', text: '閉じる' },
+    private_metadata: JSON.stringify(payload),
+    blocks
+  };
+}
+
+export function buildCancelView(payload: CancelPayload) {
+  return {
+    type: 'modal',
+    callback_id: 'gcal_cancel',
+    title: { type: 'plain_text', text: '予定の取消' },
+    submit: { type: 'plain_text', text: '取消する' },
+    close: { type: 'plain_text', text: 'キャンセル' },
+    private_metadata: JSON.stringify(payload),
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: `*${payload.title}*\n${payload.whenLabel}\nこの予定を削除し、参加者に取消を通知します。メッセージは共有した依頼のスレッドに投稿されます。`
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'cancel_message_block',
+        optional: true,
+        label: { type: 'plain_text', text: 'Slackで伝えるメッセージ' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'cancel_message_input',
+          multiline: true,
+          placeholder: { type: 'plain_text', text: '例: 都合により中止します。' }
+        }
+      }
+    ]
+  };
+}
+
+export function parseEditState(state: Record<string, Record<string, any>>) {
+  const errors: Record<string, string> = {};
+  const title = getStateValue(state, 'edit_title_block', 'edit_title_input')?.value?.trim();
+  const date = getStateValue(state, 'edit_date_block', 'edit_date_input')?.value?.trim();
+  const time = getStateValue(state, 'edit_time_block', 'edit_time_input')?.value?.trim();
+  const duration = getStateValue(state, 'edit_duration_block', 'edit_duration_input')?.value?.trim();
+  const colorId = getStateValue(state, 'edit_color_block', 'edit_color_select')?.selected_option?.value;
+  const attendees = (
+    getStateValue(state, 'edit_attendees_block', 'edit_attendees_select')?.selected_options ?? []
+  ).map((opt: any) => opt.value as string);
+  const sendUpdates = (getStateValue(state, 'send_updates_block', 'send_updates_select')?.selected_option?.value ??
+    'all') as SendUpdates;
+
+  if (!title) errors.edit_title_block = 'タイトルは必須です。';
+  if (!date) errors.edit_date_block = '日付は必須です。';
+  if (!time) errors.edit_time_block = '時間は必須です。';
+  if (!duration) errors.edit_duration_block = '時間長は必須です。';
+
+  return {
+    data: { title, date, time, duration, colorId, attendees, sendUpdates } as EditFormData,
+    errors
+  };
+}
+
+export function buildEditView(
+  payload: EditPayload,
+  attendeeOptions: Array<{ text: { type: 'plain_text'; text: string }; value: string }>
+) {
+  const start = DateTime.fromISO(payload.startISO, { zone: payload.timeZone });
+  const attendeeInitial = payload.attendeeIds
+    .map((id) => attendeeOptions.find((opt) => opt.value === id))
+    .filter((opt): opt is { text: { type: 'plain_text'; text: string }; value: string } => !!opt);
+  const sendUpdatesInitial = sendUpdatesOptions[0];
+  const textInput = (blockId: string, actionId: string, label: string, value: string, placeholder: string) => ({
+    type: 'input',
+    block_id: blockId,
+    label: { type: 'plain_text', text: label },
+    element: {
+      type: 'plain_text_input',
+      action_id: actionId,
+      initial_value: value,
+      placeholder: { type: 'plain_text', text: placeholder }
+    }
+  });
+
+  return {
+    type: 'modal',
+    callback_id: 'gcal_edit',
+    title: { type: 'plain_text', text: '予定変更' },
+    submit: { type: 'plain_text', text: 'プレビュー' },
+    close: { type: 'plain_text', text: '閉じる' },
+    private_metadata: JSON.stringify(payload),
+    blocks: [
+      textInput('edit_title_block', 'edit_title_input', 'タイトル', payload.title, '例: 田中と打合せ'),
+      textInput('edit_date_block', 'edit_date_input', '日付', start.toFormat('yyyy-LL-dd'), '例: 3/1 / 明日 / 来週火曜'),
+      textInput('edit_time_block', 'edit_time_input', '時間', start.toFormat('HH:mm'), '例: 13:00 / 15時半'),
+      textInput('edit_duration_block', 'edit_duration_input', '時間長', `${payload.durationMinutes}分`, '例: 30分 / 1時間半'),
+      {
+        type: 'input',
+        block_id: 'edit_color_block',
+        optional: true,
+        label: { type: 'plain_text', text: '色' },
+        element: {
+          type: 'static_select',
+          action_id: 'edit_color_select',
+          placeholder: { type: 'plain_text', text: '任意' },
+          initial_option: payload.colorId
+            ? {
+                text: { type: 'plain_text', text: colorNameFromId(payload.colorId) ?? '色' },
+                value: payload.colorId
+              }
+            : undefined,
+          options: colorOptions.map((opt) => ({
+            text: { type: 'plain_text', text: opt.label },
+            value: opt.value
+          }))
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'edit_attendees_block',
+        optional: true,
+        label: { type: 'plain_text', text: '参加者 (連携済みユーザー)' },
+        hint: { type: 'plain_text', text: '連携していないゲストはそのまま残ります。' },
+        element: {
+          type: 'multi_static_select',
+          action_id: 'edit_attendees_select',
+          placeholder: { type: 'plain_text', text: '参加者を選択' },
+          options: attendeeOptions,
+          initial_options: attendeeInitial.length > 0 ? attendeeInitial : undefined
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'send_updates_block',
+        label: { type: 'plain_text', text: '変更の通知' },
+        element: {
+          type: 'radio_buttons',
+          action_id: 'send_updates_select',
+          initial_option: {
+            text: { type: 'plain_text', text: sendUpdatesInitial.label },
+            value: sendUpdatesInitial.value
+          },
+          options: sendUpdatesOptions.map((opt) => ({
+            text: { type: 'plain_text', text: opt.label },
+            value: opt.value
+          }))
+        }
+      }
+    ]
+  };
+}
+
+export function buildCalendarSettingsView(
+  calendars: Array<{ id: string; summary: string; primary: boolean }>,
+  selectedIds: string[]
+) {
+  const options = calendars.slice(0, 100).map((calendar) => ({
+    text: {
+      type: 'plain_text',
+      text: `${calendar.summary}${calendar.primary ? ' (メイン)' : ''}`.slice(0, 75)
+    },
+    value: calendar.primary ? 'primary' : calendar.id
+  }));
+  const initialOptions = options.filter((opt) => selectedIds.includes(opt.value));
+  return {
+    type: 'modal',
+    callback_id: 'gcal_calendar_settings',
+    title: { type: 'plain_text', text: '参照カレンダー' },
+    submit: { type: 'plain_text', text: '保存' },
+    close: { type: 'plain_text', text: 'キャンセル' },
+    blocks: [
+      {
+        type: 'section',
+        text: {
+          type: 'mrkdwn',
+          text: '空き時間検索や重複チェックで「予定あり」として扱うカレンダーを選んでください。'
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'busy_calendars_block',
+        label: { type: 'plain_text', text: 'カレンダー' },
+        element: {
+          type: 'multi_static_select',
+          action_id: 'busy_calendars_select',
+          placeholder: { type: 'plain_text', text: 'カレンダーを選択' },
+          options,
+          initial_options: initialOptions.length > 0 ? initialOptions : undefined
+        }
+      }
+    ]
+  };
+}
+
 export function buildShareView(
   availabilityText: string,
   attendeeIds: string[] = [],
   durationMinutes?: number,
   slotOptions?: Array<{ label: string; value: string }>,
   requesterId?: string,
-  teamId?: string
+  teamId?: string,
+  optionalAttendeeIds: string[] = []
 ) {
   const mentions = attendeeIds.map((id) => `<@${id}>`).join(' ');
-  const attendeeLine = mentions ? `参加者：${mentions}` : '';
+  const optionalMentions = optionalAttendeeIds.map((id) => `<@${id}>`).join(' ');
+  const attendeeLine = [mentions ? `参加者：${mentions}` : '', optionalMentions ? `任意参加：${optionalMentions}` : '']
+    .filter(Boolean)
+    .join('\n');
   const metadata = JSON.stringify({
     teamId,
     availabilityText,
@@ -475,6 +1146,7 @@ export function buildShareView(
     durationMinutes,
     slotOptions,
     attendeeIds,
+    optionalAttendeeIds,
     requesterId
   });
   return {
@@ -517,6 +1189,51 @@ export function buildShareView(
           initial_value: '予定リクエスト',
           placeholder: { type: 'plain_text', text: '例: 30分MTG' }
         }
+      },
+      {
+        type: 'input',
+        block_id: 'location_block',
+        optional: true,
+        label: { type: 'plain_text', text: '場所' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'location_input',
+          placeholder: { type: 'plain_text', text: '例: 本社 3F 会議室A' }
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'description_block',
+        optional: true,
+        label: { type: 'plain_text', text: '説明 / アジェンダ' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'description_input',
+          multiline: true,
+          placeholder: { type: 'plain_text', text: '招待に載せる説明' }
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'reminders_block',
+        optional: true,
+        label: { type: 'plain_text', text: 'リマインダー' },
+        element: {
+          type: 'plain_text_input',
+          action_id: 'reminders_input',
+          placeholder: { type: 'plain_text', text: '例: 10分前 / メール 1日前, 通知 30分前 (空欄ならカレンダー既定)' }
+        }
+      },
+      {
+        type: 'input',
+        block_id: 'meet_block',
+        optional: true,
+        label: { type: 'plain_text', text: 'ビデオ会議' },
+        element: {
+          type: 'checkboxes',
+          action_id: 'meet_toggle',
+          options: [meetOption]
+        }
       }
     ]
   };
@@ -0,0 +1,53 @@
+import { createClient } from '@supabase/supabase-js';
+
+export type DeliveryKind = 'digest' | 'meeting-reminder';
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const DELIVERIES_TABLE = process.env.GCAL_DELIVERIES_TABLE || 'gcal_scheduled_deliveries';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+// Relies on a unique (team_id, user_id, kind, delivery_key) constraint: only the first claim wins,
+// so a restarted server or an overlapping cron run never sends the same message twice.
+export async function claimDelivery(
+  teamId: string,
+  userId: string,
+  kind: DeliveryKind,
+  deliveryKey: string
+): Promise<boolean> {
+  const { error } = await supabase.from(DELIVERIES_TABLE).insert({
+    team_id: teamId,
+    user_id: userId,
+    kind,
+    delivery_key: deliveryKey,
+    created_at: new Date().toISOString()
+  });
+  if (!error) return true;
+  if (error.code === '23505') return false;
+  throw error;
+}
+
+// Gives a claim back after a failed send so the next run retries it.
+export async function releaseDelivery(teamId: string, userId: string, kind: DeliveryKind, deliveryKey: string) {
+  const { error } = await supabase
+    .from(DELIVERIES_TABLE)
+    .delete()
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .eq('kind', kind)
+    .eq('delivery_key', deliveryKey);
+  if (error) {
+    throw error;
+  }
+}
@@ -1,5 +1,6 @@
 import { createClient } from '@supabase/supabase-js';
 import type { Installation, InstallationQuery, InstallationStore } from '@slack/bolt';
+import { setSlackUserToken } from './slackUserTokenStore';
 
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_KEY =
@@ -51,6 +52,10 @@ export const slackInstallationStore: InstallationStore = {
     if (error) {
       throw error;
     }
+
+    if (teamId && installation.user.token) {
+      await setSlackUserToken(teamId, installation.user.id, installation.user.token, installation.user.scopes ?? []);
+    }
   },
 
   async fetchInstallation(query: InstallationQuery<boolean>) {
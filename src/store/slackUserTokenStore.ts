@@ -0,0 +1,85 @@
+import { createClient } from '@supabase/supabase-js';
+
+// A DND snooze the status sync started for a focus block. endtime is Slack's, so a snooze the member
+// replaced or ended themselves no longer matches it.
+export type FocusSnooze = { endtime: number; focusEnd: string };
+
+type SlackUserTokenRow = {
+  team_id: string;
+  user_id: string;
+  token: string;
+  scopes: string[] | null;
+  focus_snooze: FocusSnooze | null;
+};
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const SLACK_USER_TOKEN_TABLE = process.env.SLACK_USER_TOKEN_TABLE || 'slack_user_tokens';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+// The installation row is per workspace, so each member's user token is kept here instead.
+export async function setSlackUserToken(teamId: string, userId: string, token: string, scopes: string[]) {
+  const { error } = await supabase.from(SLACK_USER_TOKEN_TABLE).upsert(
+    {
+      team_id: teamId,
+      user_id: userId,
+      token,
+      scopes,
+      updated_at: new Date().toISOString()
+    },
+    { onConflict: 'team_id,user_id' }
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function getSlackUserToken(
+  teamId: string,
+  userId: string
+): Promise<{ token: string; scopes: string[]; focusSnooze?: FocusSnooze } | null> {
+  const { data, error } = await supabase
+    .from(SLACK_USER_TOKEN_TABLE)
+    .select('token,scopes,focus_snooze')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  const row = data as Pick<SlackUserTokenRow, 'token' | 'scopes' | 'focus_snooze'> | null;
+  return row ? { token: row.token, scopes: row.scopes ?? [], focusSnooze: row.focus_snooze ?? undefined } : null;
+}
+
+export async function setFocusSnooze(teamId: string, userId: string, focusSnooze: FocusSnooze | null) {
+  const { error } = await supabase
+    .from(SLACK_USER_TOKEN_TABLE)
+    .update({ focus_snooze: focusSnooze, updated_at: new Date().toISOString() })
+    .eq('team_id', teamId)
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function removeSlackUserToken(teamId: string, userId: string) {
+  const { error } = await supabase
+    .from(SLACK_USER_TOKEN_TABLE)
+    .delete()
+    .eq('team_id', teamId)
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+}
@@ -5,9 +5,10 @@ type TokenRow = {
   user_id: string;
   refresh_token: string;
   email?: string | null;
+  busy_calendar_ids?: string[] | null;
 };
 
-type TokenStoreValue = { refreshToken: string; email?: string };
+export type TokenStoreValue = { refreshToken: string; email?: string; busyCalendarIds?: string[] };
 
 const SUPABASE_URL = process.env.SUPABASE_URL;
 const SUPABASE_KEY =
@@ -31,7 +32,7 @@ export async function getUserToken(
 ): Promise<TokenStoreValue | null> {
   const { data, error } = await supabase
     .from(TOKEN_TABLE)
-    .select('refresh_token,email')
+    .select('refresh_token,email,busy_calendar_ids')
     .eq('team_id', teamId)
     .eq('user_id', userId)
     .maybeSingle();
@@ -43,7 +44,8 @@ export async function getUserToken(
   if (!data) return null;
   return {
     refreshToken: data.refresh_token,
-    email: data.email ?? undefined
+    email: data.email ?? undefined,
+    busyCalendarIds: data.busy_calendar_ids ?? undefined
   };
 }
 
@@ -79,6 +81,17 @@ export async function updateUserEmail(teamId: string, userId: string, email: str
   }
 }
 
+export async function setUserBusyCalendars(teamId: string, userId: string, calendarIds: string[]) {
+  const { error } = await supabase
+    .from(TOKEN_TABLE)
+    .update({ busy_calendar_ids: calendarIds, updated_at: new Date().toISOString() })
+    .eq('team_id', teamId)
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+}
+
 export async function removeUserToken(teamId: string, userId: string) {
   const { error } = await supabase
     .from(TOKEN_TABLE)
@@ -105,3 +118,16 @@ export async function listUserTokens(
     email: row.email ?? undefined
   }));
 }
+
+// Every connected user across workspaces; used by background jobs.
+export async function listAllUserTokens(): Promise<Array<{ teamId: string; userId: string; refreshToken: string }>> {
+  const { data, error } = await supabase.from(TOKEN_TABLE).select('team_id,user_id,refresh_token');
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: Pick<TokenRow, 'team_id' | 'user_id' | 'refresh_token'>) => ({
+    teamId: row.team_id,
+    userId: row.user_id,
+    refreshToken: row.refresh_token
+  }));
+}
@@ -0,0 +1,159 @@
+import { createClient } from '@supabase/supabase-js';
+
+// The shared request message the event was booked from, so it can be redrawn from any process.
+export type TrackedShareMessage = {
+  baseBlocks: any[];
+  slotOptions: Array<{ label: string; value: string }>;
+  selectedLabel?: string;
+  meetUrl?: string;
+};
+
+export type TrackedEvent = {
+  teamId: string;
+  eventId: string;
+  requesterId: string;
+  title: string;
+  startAt: string;
+  // Where the RSVP summary lives: a DM with the requester or a thread on the shared message.
+  summaryChannel: string;
+  summaryThreadTs?: string;
+  summaryTs?: string;
+  // Set for events booked from a shared request; the message is summaryChannel / summaryThreadTs.
+  shareMessage?: TrackedShareMessage;
+  lastStatuses?: Record<string, string>;
+  nudgedAt?: string;
+  createdAt: string;
+};
+
+type TrackedEventRow = {
+  team_id: string;
+  event_id: string;
+  requester_id: string;
+  title: string;
+  start_at: string;
+  summary_channel: string;
+  summary_thread_ts: string | null;
+  summary_ts: string | null;
+  share_message: TrackedShareMessage | null;
+  last_statuses: Record<string, string> | null;
+  nudged_at: string | null;
+  created_at: string;
+};
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const TRACKED_EVENTS_TABLE = process.env.GCAL_TRACKED_EVENTS_TABLE || 'gcal_tracked_events';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+function fromRow(row: TrackedEventRow): TrackedEvent {
+  return {
+    teamId: row.team_id,
+    eventId: row.event_id,
+    requesterId: row.requester_id,
+    title: row.title,
+    startAt: row.start_at,
+    summaryChannel: row.summary_channel,
+    summaryThreadTs: row.summary_thread_ts ?? undefined,
+    summaryTs: row.summary_ts ?? undefined,
+    shareMessage: row.share_message ?? undefined,
+    lastStatuses: row.last_statuses ?? undefined,
+    nudgedAt: row.nudged_at ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+export async function trackEvent(
+  event: Omit<TrackedEvent, 'createdAt' | 'summaryTs' | 'lastStatuses' | 'nudgedAt'>
+): Promise<void> {
+  const { error } = await supabase.from(TRACKED_EVENTS_TABLE).upsert(
+    {
+      team_id: event.teamId,
+      event_id: event.eventId,
+      requester_id: event.requesterId,
+      title: event.title,
+      start_at: event.startAt,
+      summary_channel: event.summaryChannel,
+      summary_thread_ts: event.summaryThreadTs ?? null,
+      summary_ts: null,
+      share_message: event.shareMessage ?? null,
+      last_statuses: null,
+      nudged_at: null,
+      created_at: new Date().toISOString()
+    },
+    { onConflict: 'team_id,event_id' }
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function getTrackedEvent(teamId: string, eventId: string): Promise<TrackedEvent | null> {
+  const { data, error } = await supabase
+    .from(TRACKED_EVENTS_TABLE)
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('event_id', eventId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? fromRow(data as TrackedEventRow) : null;
+}
+
+// Events are tracked until they start; after that RSVPs no longer matter.
+export async function listUpcomingTrackedEvents(now: Date): Promise<TrackedEvent[]> {
+  const { data, error } = await supabase
+    .from(TRACKED_EVENTS_TABLE)
+    .select('*')
+    .gt('start_at', now.toISOString());
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: TrackedEventRow) => fromRow(row));
+}
+
+export async function updateTrackedEvent(
+  teamId: string,
+  eventId: string,
+  patch: Partial<
+    Pick<TrackedEvent, 'startAt' | 'summaryTs' | 'lastStatuses' | 'nudgedAt' | 'summaryChannel' | 'shareMessage'>
+  >
+): Promise<void> {
+  const row: Partial<TrackedEventRow> = {};
+  if (patch.startAt !== undefined) row.start_at = patch.startAt;
+  if (patch.summaryChannel !== undefined) row.summary_channel = patch.summaryChannel;
+  if (patch.summaryTs !== undefined) row.summary_ts = patch.summaryTs;
+  if (patch.lastStatuses !== undefined) row.last_statuses = patch.lastStatuses;
+  if (patch.nudgedAt !== undefined) row.nudged_at = patch.nudgedAt;
+  if (patch.shareMessage !== undefined) row.share_message = patch.shareMessage;
+  const { error } = await supabase
+    .from(TRACKED_EVENTS_TABLE)
+    .update(row)
+    .eq('team_id', teamId)
+    .eq('event_id', eventId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function removeTrackedEvent(teamId: string, eventId: string): Promise<void> {
+  const { error } = await supabase
+    .from(TRACKED_EVENTS_TABLE)
+    .delete()
+    .eq('team_id', teamId)
+    .eq('event_id', eventId);
+  if (error) {
+    throw error;
+  }
+}
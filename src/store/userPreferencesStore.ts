@@ -0,0 +1,97 @@
+import { createClient } from '@supabase/supabase-js';
+import type { WeeklyWorkingHours } from '../utils/workingHours';
+
+// Daily agenda DM; present only when the user has opted in. Weekdays are ISO (1 = Monday).
+export type DigestPreferences = {
+  time: { hour: number; minute: number };
+  weekdays: number[];
+};
+
+export type UserPreferences = {
+  timezone?: string;
+  workingHours?: WeeklyWorkingHours;
+  digest?: DigestPreferences;
+  // Minutes before each event to send a Slack DM; unset means reminders are off.
+  meetingReminderMinutes?: number;
+  // Mirrors calendar events into the Slack status; present only when the user has opted in.
+  statusSync?: { dndDuringFocus: boolean };
+};
+
+type UserPreferencesRow = {
+  team_id: string;
+  user_id: string;
+  preferences: UserPreferences | null;
+};
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const PREFERENCES_TABLE = process.env.GCAL_PREFERENCES_TABLE || 'gcal_user_preferences';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+export async function getUserPreferences(teamId: string, userId: string): Promise<UserPreferences> {
+  const { data, error } = await supabase
+    .from(PREFERENCES_TABLE)
+    .select('preferences')
+    .eq('team_id', teamId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return (data as Pick<UserPreferencesRow, 'preferences'> | null)?.preferences ?? {};
+}
+
+// Users who have opted in to a scheduled feature, across all workspaces.
+export async function listUsersWithPreference(
+  key: 'digest' | 'meetingReminderMinutes' | 'statusSync'
+): Promise<
+  Array<{ teamId: string; userId: string; preferences: UserPreferences }>
+> {
+  const { data, error } = await supabase
+    .from(PREFERENCES_TABLE)
+    .select('team_id,user_id,preferences')
+    .not(`preferences->${key}`, 'is', null);
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: UserPreferencesRow) => ({
+    teamId: row.team_id,
+    userId: row.user_id,
+    preferences: row.preferences ?? {}
+  }));
+}
+
+export async function updateUserPreferences(
+  teamId: string,
+  userId: string,
+  patch: Partial<UserPreferences>
+): Promise<UserPreferences> {
+  const current = await getUserPreferences(teamId, userId);
+  const preferences = { ...current, ...patch };
+  const { error } = await supabase.from(PREFERENCES_TABLE).upsert(
+    {
+      team_id: teamId,
+      user_id: userId,
+      preferences,
+      updated_at: new Date().toISOString()
+    },
+    { onConflict: 'team_id,user_id' }
+  );
+  if (error) {
+    throw error;
+  }
+  return preferences;
+}
@@ -0,0 +1,132 @@
+import { createClient } from '@supabase/supabase-js';
+
+export type WatchChannel = {
+  channelId: string;
+  teamId: string;
+  userId: string;
+  resourceId: string;
+  // Echoed back by Google in X-Goog-Channel-Token; used to reject forged notifications.
+  token: string;
+  expiration: string;
+  syncToken?: string;
+};
+
+type WatchChannelRow = {
+  channel_id: string;
+  team_id: string;
+  user_id: string;
+  resource_id: string;
+  token: string;
+  expiration: string;
+  sync_token: string | null;
+};
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const WATCH_CHANNELS_TABLE = process.env.GCAL_WATCH_CHANNELS_TABLE || 'gcal_watch_channels';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+function fromRow(row: WatchChannelRow): WatchChannel {
+  return {
+    channelId: row.channel_id,
+    teamId: row.team_id,
+    userId: row.user_id,
+    resourceId: row.resource_id,
+    token: row.token,
+    expiration: row.expiration,
+    syncToken: row.sync_token ?? undefined
+  };
+}
+
+export async function saveWatchChannel(channel: WatchChannel) {
+  const { error } = await supabase.from(WATCH_CHANNELS_TABLE).upsert(
+    {
+      channel_id: channel.channelId,
+      team_id: channel.teamId,
+      user_id: channel.userId,
+      resource_id: channel.resourceId,
+      token: channel.token,
+      expiration: channel.expiration,
+      sync_token: channel.syncToken ?? null,
+      updated_at: new Date().toISOString()
+    },
+    { onConflict: 'channel_id' }
+  );
+  if (error) {
+    throw error;
+  }
+}
+
+export async function getWatchChannel(channelId: string): Promise<WatchChannel | null> {
+  const { data, error } = await supabase
+    .from(WATCH_CHANNELS_TABLE)
+    .select('*')
+    .eq('channel_id', channelId)
+    .maybeSingle();
+  if (error) {
+    throw error;
+  }
+  return data ? fromRow(data as WatchChannelRow) : null;
+}
+
+export async function listUserWatchChannels(teamId: string, userId: string): Promise<WatchChannel[]> {
+  const { data, error } = await supabase
+    .from(WATCH_CHANNELS_TABLE)
+    .select('*')
+    .eq('team_id', teamId)
+    .eq('user_id', userId);
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: WatchChannelRow) => fromRow(row));
+}
+
+export async function listWatchedUsers(): Promise<Array<{ teamId: string; userId: string }>> {
+  const { data, error } = await supabase.from(WATCH_CHANNELS_TABLE).select('team_id,user_id');
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: Pick<WatchChannelRow, 'team_id' | 'user_id'>) => ({
+    teamId: row.team_id,
+    userId: row.user_id
+  }));
+}
+
+export async function listWatchChannelsExpiringBefore(before: Date): Promise<WatchChannel[]> {
+  const { data, error } = await supabase
+    .from(WATCH_CHANNELS_TABLE)
+    .select('*')
+    .lt('expiration', before.toISOString());
+  if (error) {
+    throw error;
+  }
+  return (data ?? []).map((row: WatchChannelRow) => fromRow(row));
+}
+
+export async function updateSyncToken(channelId: string, syncToken: string) {
+  const { error } = await supabase
+    .from(WATCH_CHANNELS_TABLE)
+    .update({ sync_token: syncToken, updated_at: new Date().toISOString() })
+    .eq('channel_id', channelId);
+  if (error) {
+    throw error;
+  }
+}
+
+export async function removeWatchChannel(channelId: string) {
+  const { error } = await supabase.from(WATCH_CHANNELS_TABLE).delete().eq('channel_id', channelId);
+  if (error) {
+    throw error;
+  }
+}
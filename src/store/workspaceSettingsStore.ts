@@ -0,0 +1,76 @@
+import { createClient } from '@supabase/supabase-js';
+import { BusyEventRules, defaultBusyEventRules } from '../utils/busyEvents';
+
+export type WorkspaceSettings = {
+  durationPresets: Record<string, number>;
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+  busyEventRules: BusyEventRules;
+  // Hours after the invite before unanswered attendees are reported; 0 turns reminders off.
+  rsvpNudgeHours: number;
+};
+
+type WorkspaceSettingsRow = {
+  team_id: string;
+  settings: Partial<WorkspaceSettings> | null;
+};
+
+const SUPABASE_URL = process.env.SUPABASE_URL;
+const SUPABASE_KEY =
+  process.env.SUPABASE_SERVICE_ROLE_KEY || process.env.SUPABASE_ANON_KEY;
+const WORKSPACE_TABLE = process.env.GCAL_WORKSPACE_TABLE || 'gcal_workspace_settings';
+
+if (!SUPABASE_URL) {
+  throw new Error('Missing env: SUPABASE_URL');
+}
+if (!SUPABASE_KEY) {
+  throw new Error('Missing env: SUPABASE_SERVICE_ROLE_KEY or SUPABASE_ANON_KEY');
+}
+
+const supabase = createClient(SUPABASE_URL, SUPABASE_KEY, {
+  auth: { persistSession: false }
+});
+
+function withDefaults(settings?: Partial<WorkspaceSettings> | null): WorkspaceSettings {
+  return {
+    durationPresets: settings?.durationPresets ?? {},
+    bufferBeforeMinutes: settings?.bufferBeforeMinutes ?? 0,
+    bufferAfterMinutes: settings?.bufferAfterMinutes ?? 0,
+    busyEventRules: { ...defaultBusyEventRules, ...settings?.busyEventRules },
+    rsvpNudgeHours: settings?.rsvpNudgeHours ?? 24
+  };
+}
+
+export async function getWorkspaceSettings(teamId: string): Promise<WorkspaceSettings> {
+  const { data, error } = await supabase
+    .from(WORKSPACE_TABLE)
+    .select('settings')
+    .eq('team_id', teamId)
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return withDefaults((data as Pick<WorkspaceSettingsRow, 'settings'> | null)?.settings);
+}
+
+export async function updateWorkspaceSettings(
+  teamId: string,
+  patch: Partial<WorkspaceSettings>
+): Promise<WorkspaceSettings> {
+  const current = await getWorkspaceSettings(teamId);
+  const settings = { ...current, ...patch };
+  const { error } = await supabase.from(WORKSPACE_TABLE).upsert(
+    {
+      team_id: teamId,
+      settings,
+      updated_at: new Date().toISOString()
+    },
+    { onConflict: 'team_id' }
+  );
+  if (error) {
+    throw error;
+  }
+  return settings;
+}
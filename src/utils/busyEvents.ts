@@ -0,0 +1,70 @@
+import { DateTime } from 'luxon';
+import { parseBusyInterval } from './intervals';
+
+export type BusyEventRules = {
+  transparentAsBusy: boolean;
+  declinedAsBusy: boolean;
+  tentativeAsBusy: boolean;
+  needsActionAsBusy: boolean;
+};
+
+// Mirrors Google's own free/busy view: transparent and declined events do not block time.
+export const defaultBusyEventRules: BusyEventRules = {
+  transparentAsBusy: false,
+  declinedAsBusy: false,
+  tentativeAsBusy: true,
+  needsActionAsBusy: true
+};
+
+export const busyEventRuleLabels: Record<keyof BusyEventRules, string> = {
+  transparentAsBusy: '「空き時間」として登録された予定',
+  declinedAsBusy: '辞退した予定',
+  tentativeAsBusy: '仮承諾の予定',
+  needsActionAsBusy: '未回答の予定'
+};
+
+export type CalendarEventLike = {
+  status?: string | null;
+  transparency?: string | null;
+  start?: { date?: string | null; dateTime?: string | null } | null;
+  end?: { date?: string | null; dateTime?: string | null } | null;
+  attendees?: Array<{ self?: boolean | null; responseStatus?: string | null }> | null;
+};
+
+export function isBusyEvent(event: CalendarEventLike, rules: BusyEventRules): boolean {
+  if (event.status === 'cancelled') return false;
+  if (event.transparency === 'transparent' && !rules.transparentAsBusy) return false;
+
+  // Events without a self attendee are the user's own; treat them as accepted.
+  const response = event.attendees?.find((attendee) => attendee.self)?.responseStatus ?? 'accepted';
+  if (response === 'declined') return rules.declinedAsBusy;
+  if (response === 'tentative') return rules.tentativeAsBusy;
+  if (response === 'needsAction') return rules.needsActionAsBusy;
+  return true;
+}
+
+// All-day events are read in the owner's zone so they cover the owner's calendar day.
+export function collectBusyIntervals(
+  events: CalendarEventLike[],
+  rules: BusyEventRules,
+  zone: string,
+  userZone: string
+): { timed: Array<{ start: DateTime; end: DateTime }>; allDay: Array<{ start: DateTime; end: DateTime }> } {
+  const timed: Array<{ start: DateTime; end: DateTime }> = [];
+  const allDay: Array<{ start: DateTime; end: DateTime }> = [];
+  for (const event of events) {
+    if (!isBusyEvent(event, rules)) continue;
+    if (event.start?.date && event.end?.date) {
+      const parsed = parseBusyInterval(event.start.date, event.end.date, userZone);
+      if (parsed.start.isValid && parsed.end.isValid) {
+        allDay.push({ start: parsed.start.setZone(zone), end: parsed.end.setZone(zone) });
+      }
+    } else if (event.start?.dateTime && event.end?.dateTime) {
+      const parsed = parseBusyInterval(event.start.dateTime, event.end.dateTime, zone);
+      if (parsed.start.isValid && parsed.end.isValid) {
+        timed.push(parsed);
+      }
+    }
+  }
+  return { timed, allDay };
+}
@@ -0,0 +1,120 @@
+import { DateTime } from 'luxon';
+
+// Japanese public holidays computed offline from the 祝日法 rules in force since 2020.
+// The Olympic years 2020 and 2021 moved three holidays; those are listed explicitly.
+
+const FIRST_SUPPORTED_YEAR = 2020;
+const LAST_SUPPORTED_YEAR = 2099;
+
+const olympicOverrides = new Map<number, Array<[string, string]>>([
+  [
+    2020,
+    [
+      ['07-23', '海の日'],
+      ['07-24', 'スポーツの日'],
+      ['08-10', '山の日']
+    ]
+  ],
+  [
+    2021,
+    [
+      ['07-22', '海の日'],
+      ['07-23', 'スポーツの日'],
+      ['08-08', '山の日']
+    ]
+  ]
+]);
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+function nthMonday(year: number, month: number, ordinal: number) {
+  const first = DateTime.fromObject({ year, month, day: 1 });
+  return first.plus({ days: (8 - first.weekday) % 7 + (ordinal - 1) * 7 });
+}
+
+// Valid for 1980-2099 (国立天文台の近似式).
+function equinoxDay(year: number, base: number) {
+  return Math.floor(base + 0.242194 * (year - 1980) - Math.floor((year - 1980) / 4));
+}
+
+function buildHolidays(year: number): Map<string, string> {
+  const entries: Array<[DateTime, string]> = [];
+  const fixed = (month: number, day: number, name: string) =>
+    entries.push([DateTime.fromObject({ year, month, day }), name]);
+
+  fixed(1, 1, '元日');
+  entries.push([nthMonday(year, 1, 2), '成人の日']);
+  fixed(2, 11, '建国記念の日');
+  fixed(2, 23, '天皇誕生日');
+  fixed(3, equinoxDay(year, 20.8431), '春分の日');
+  fixed(4, 29, '昭和の日');
+  fixed(5, 3, '憲法記念日');
+  fixed(5, 4, 'みどりの日');
+  fixed(5, 5, 'こどもの日');
+  entries.push([nthMonday(year, 9, 3), '敬老の日']);
+  fixed(9, equinoxDay(year, 23.2488), '秋分の日');
+  fixed(11, 3, '文化の日');
+  fixed(11, 23, '勤労感謝の日');
+
+  const overrides = olympicOverrides.get(year);
+  if (overrides) {
+    for (const [monthDay, name] of overrides) {
+      entries.push([DateTime.fromISO(`${year}-${monthDay}`), name]);
+    }
+  } else {
+    entries.push([nthMonday(year, 7, 3), '海の日']);
+    fixed(8, 11, '山の日');
+    entries.push([nthMonday(year, 10, 2), 'スポーツの日']);
+  }
+
+  const holidays = new Map<string, string>();
+  for (const [date, name] of entries) {
+    holidays.set(date.toISODate()!, name);
+  }
+
+  // 国民の休日: a weekday sandwiched between two holidays.
+  for (const iso of [...holidays.keys()]) {
+    const next = DateTime.fromISO(iso).plus({ days: 1 });
+    const afterNext = next.plus({ days: 1 });
+    if (
+      !holidays.has(next.toISODate()!) &&
+      holidays.has(afterNext.toISODate()!) &&
+      next.weekday !== 7
+    ) {
+      holidays.set(next.toISODate()!, '国民の休日');
+    }
+  }
+
+  // 振替休日: a holiday on Sunday moves to the next day that is not already a holiday.
+  for (const iso of [...holidays.keys()].sort()) {
+    const date = DateTime.fromISO(iso);
+    if (date.weekday !== 7) continue;
+    let substitute = date.plus({ days: 1 });
+    while (holidays.has(substitute.toISODate()!)) {
+      substitute = substitute.plus({ days: 1 });
+    }
+    if (substitute.year === year) {
+      holidays.set(substitute.toISODate()!, '振替休日');
+    }
+  }
+
+  return holidays;
+}
+
+export function getJapaneseHolidays(year: number): Map<string, string> {
+  if (year < FIRST_SUPPORTED_YEAR || year > LAST_SUPPORTED_YEAR) return new Map();
+  let holidays = holidayCache.get(year);
+  if (!holidays) {
+    holidays = buildHolidays(year);
+    holidayCache.set(year, holidays);
+  }
+  return holidays;
+}
+
+export function getHolidayName(day: DateTime): string | undefined {
+  return getJapaneseHolidays(day.year).get(day.toISODate()!);
+}
+
+export function isJapaneseHoliday(day: DateTime): boolean {
+  return getHolidayName(day) !== undefined;
+}
@@ -1,4 +1,5 @@
 import { DateTime } from 'luxon';
+import { isJapaneseHoliday } from './holidays';
 
 export function parseBusyInterval(startRaw: string, endRaw: string, zone: string) {
   const isDateOnly = /^\d{4}-\d{2}-\d{2}$/.test(startRaw) && /^\d{4}-\d{2}-\d{2}$/.test(endRaw);
@@ -58,6 +59,20 @@ export function mergeBusyIntervals(
   return merged;
 }
 
+export type BusyPadding = { before: number; after: number };
+
+// Widen busy blocks so that suggested slots keep a gap before and after existing meetings.
+export function padBusyIntervals(
+  intervals: Array<{ start: DateTime; end: DateTime }>,
+  padding?: BusyPadding
+) {
+  if (!padding || (padding.before <= 0 && padding.after <= 0)) return intervals;
+  return intervals.map((interval) => ({
+    start: interval.start.minus({ minutes: padding.before }),
+    end: interval.end.plus({ minutes: padding.after })
+  }));
+}
+
 export function buildFreeIntervals(
   rangeStart: DateTime,
   rangeEnd: DateTime,
@@ -83,12 +98,50 @@ export function buildFreeIntervals(
   return free;
 }
 
-export function listDays(startDate: DateTime, endDate: DateTime): DateTime[] {
+export type DayFilter = {
+  weekdays?: number[];
+  includedDates?: string[];
+  excludedDates?: string[];
+  skipHolidays?: boolean;
+};
+
+export function matchesDayFilter(day: DateTime, filter?: DayFilter): boolean {
+  if (!filter) return true;
+  const iso = day.toISODate()!;
+  if (filter.weekdays && !filter.weekdays.includes(day.weekday)) return false;
+  if (filter.includedDates && !filter.includedDates.includes(iso)) return false;
+  if (filter.excludedDates?.includes(iso)) return false;
+  if (filter.skipHolidays && isJapaneseHoliday(day)) return false;
+  return true;
+}
+
+// Concrete start times of `durationMinutes` inside each free interval, aligned to the granularity grid.
+export function buildSlotStarts(
+  intervals: Array<{ start: DateTime; end: DateTime }>,
+  durationMinutes: number,
+  granularityMinutes: number
+): DateTime[] {
+  const starts: DateTime[] = [];
+  for (const interval of intervals) {
+    const dayStart = interval.start.startOf('day');
+    const offset = interval.start.diff(dayStart, 'minutes').minutes;
+    let cursor = dayStart.plus({ minutes: Math.ceil(offset / granularityMinutes) * granularityMinutes });
+    while (cursor.plus({ minutes: durationMinutes }) <= interval.end) {
+      starts.push(cursor);
+      cursor = cursor.plus({ minutes: granularityMinutes });
+    }
+  }
+  return starts;
+}
+
+export function listDays(startDate: DateTime, endDate: DateTime, filter?: DayFilter): DateTime[] {
   const days: DateTime[] = [];
   let cursor = startDate.startOf('day');
   const end = endDate.startOf('day');
   while (cursor <= end) {
-    days.push(cursor);
+    if (matchesDayFilter(cursor, filter)) {
+      days.push(cursor);
+    }
     cursor = cursor.plus({ days: 1 });
   }
   return days;
@@ -123,3 +176,48 @@ export function findFirstAvailableSlot(
 
   return null;
 }
+
+export function overlapsAny(
+  interval: { start: DateTime; end: DateTime },
+  busy: Array<{ start: DateTime; end: DateTime }>
+): boolean {
+  return busy.some((item) => item.start < interval.end && item.end > interval.start);
+}
+
+export function listUnavailableUsers(
+  interval: { start: DateTime; end: DateTime },
+  busyByUser: Map<string, Array<{ start: DateTime; end: DateTime }>>
+): string[] {
+  return [...busyByUser]
+    .filter(([, busy]) => overlapsAny(interval, busy))
+    .map(([userId]) => userId);
+}
+
+// Cut a free interval wherever the set of unavailable users changes.
+export function splitByAvailability(
+  interval: { start: DateTime; end: DateTime },
+  busyByUser: Map<string, Array<{ start: DateTime; end: DateTime }>>
+): Array<{ start: DateTime; end: DateTime; unavailable: string[] }> {
+  const points = new Set<number>([interval.start.toMillis(), interval.end.toMillis()]);
+  for (const busy of busyByUser.values()) {
+    for (const item of busy) {
+      if (item.start > interval.start && item.start < interval.end) points.add(item.start.toMillis());
+      if (item.end > interval.start && item.end < interval.end) points.add(item.end.toMillis());
+    }
+  }
+
+  const sorted = [...points].sort((a, b) => a - b);
+  const segments: Array<{ start: DateTime; end: DateTime; unavailable: string[] }> = [];
+  for (let index = 0; index < sorted.length - 1; index += 1) {
+    const start = DateTime.fromMillis(sorted[index], { zone: interval.start.zone });
+    const end = DateTime.fromMillis(sorted[index + 1], { zone: interval.start.zone });
+    const unavailable = listUnavailableUsers({ start, end }, busyByUser);
+    const last = segments[segments.length - 1];
+    if (last && last.unavailable.join(',') === unavailable.join(',')) {
+      last.end = end;
+    } else {
+      segments.push({ start, end, unavailable });
+    }
+  }
+  return segments;
+}
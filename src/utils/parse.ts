@@ -1,6 +1,13 @@
 import { DateTime } from 'luxon';
+import { DayFilter, listDays } from './intervals';
 
-export function parseDateParts(dateStr: string): { year?: number; month: number; day: number; hasYear: boolean } | null {
+// Japanese IMEs produce full-width digits, colons and slashes; NFKC folds them to ASCII.
+export function normalizeInput(input: string) {
+  return input.normalize('NFKC').trim();
+}
+
+export function parseDateParts(input: string): { year?: number; month: number; day: number; hasYear: boolean } | null {
+  const dateStr = normalizeInput(input);
   const ymd = dateStr.match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
   if (ymd) {
     return {
@@ -23,7 +30,135 @@ export function parseDateParts(dateStr: string): { year?: number; month: number;
   return null;
 }
 
+const weekdayMap = new Map<string, number>([
+  ['月', 1],
+  ['火', 2],
+  ['水', 3],
+  ['木', 4],
+  ['金', 5],
+  ['土', 6],
+  ['日', 7]
+]);
+
+const weekOffsetMap = new Map<string, number>([
+  ['今週', 0],
+  ['来週', 1],
+  ['再来週', 2]
+]);
+
+const monthOffsetMap = new Map<string, number>([
+  ['今月', 0],
+  ['来月', 1],
+  ['再来月', 2]
+]);
+
+const dayOffsetMap = new Map<string, number>([
+  ['昨日', -1],
+  ['今日', 0],
+  ['本日', 0],
+  ['明日', 1],
+  ['あした', 1],
+  ['あす', 1],
+  ['明後日', 2],
+  ['あさって', 2],
+  ['明々後日', 3],
+  ['しあさって', 3]
+]);
+
+function normalizeDateToken(input: string) {
+  return normalizeInput(input).replace(/\s+/g, '');
+}
+
+export function resolveRelativeDate(input: string, now: DateTime): DateTime | null {
+  const token = normalizeDateToken(input);
+  const today = now.startOf('day');
+
+  const dayOffset = dayOffsetMap.get(token);
+  if (dayOffset !== undefined) return today.plus({ days: dayOffset });
+
+  const later = token.match(/^(\d+)(日|週間)後$/);
+  if (later) {
+    const value = Number(later[1]);
+    return later[2] === '日' ? today.plus({ days: value }) : today.plus({ weeks: value });
+  }
+
+  const weekday = token.match(/^(今週|来週|再来週)?の?([月火水木金土日])曜日?$/);
+  if (weekday) {
+    const target = weekdayMap.get(weekday[2])!;
+    if (weekday[1]) {
+      const weekStart = today.startOf('week').plus({ weeks: weekOffsetMap.get(weekday[1])! });
+      return weekStart.plus({ days: target - 1 });
+    }
+    // A bare weekday means the next occurrence, counting today.
+    return today.plus({ days: (target - today.weekday + 7) % 7 });
+  }
+
+  const weekend = token.match(/^(?:(今週|来週|再来週)末|週末)$/);
+  if (weekend) {
+    const weekStart = today.startOf('week').plus({ weeks: weekOffsetMap.get(weekend[1] ?? '今週')! });
+    return weekStart.plus({ days: 5 });
+  }
+
+  const monthEdge = token.match(/^(?:(今月|来月|再来月)|月)(末|初)$/);
+  if (monthEdge) {
+    const month = today.startOf('month').plus({ months: monthOffsetMap.get(monthEdge[1] ?? '今月')! });
+    return monthEdge[2] === '末' ? month.endOf('month').startOf('day') : month;
+  }
+
+  return null;
+}
+
+export function resolveRelativeDateRange(
+  input: string,
+  now: DateTime
+): { startDate: DateTime; endDate: DateTime } | null {
+  const token = normalizeDateToken(input);
+  const today = now.startOf('day');
+  let range: { startDate: DateTime; endDate: DateTime; current: boolean } | null = null;
+
+  const week = token.match(/^(今週|来週|再来週)(?:の?(平日|週末|土日)|(末))?$/);
+  const bareWeekend = token === '週末' || token === '土日';
+  if (week || bareWeekend) {
+    const offset = week ? weekOffsetMap.get(week[1])! : 0;
+    const part = week ? (week[3] ? '週末' : week[2]) : '週末';
+    const weekStart = today.startOf('week').plus({ weeks: offset });
+    if (part === '平日') {
+      range = { startDate: weekStart, endDate: weekStart.plus({ days: 4 }), current: offset === 0 };
+    } else if (part === '週末' || part === '土日') {
+      range = {
+        startDate: weekStart.plus({ days: 5 }),
+        endDate: weekStart.plus({ days: 6 }),
+        current: offset === 0
+      };
+    } else {
+      range = { startDate: weekStart, endDate: weekStart.plus({ days: 6 }), current: offset === 0 };
+    }
+  }
+
+  const month = token.match(/^(今月|来月|再来月)$/);
+  if (month) {
+    const offset = monthOffsetMap.get(month[1])!;
+    const monthStart = today.startOf('month').plus({ months: offset });
+    range = {
+      startDate: monthStart,
+      endDate: monthStart.endOf('month').startOf('day'),
+      current: offset === 0
+    };
+  }
+
+  if (!range) return null;
+  // Periods that are already underway start from today rather than in the past.
+  const startDate = range.current && range.startDate < today ? today : range.startDate;
+  if (range.endDate < startDate) return null;
+  return { startDate, endDate: range.endDate };
+}
+
 export function parseDate(dateStr: string, now: DateTime): { year: number; month: number; day: number } | null {
+  const relative = resolveRelativeDate(dateStr, now);
+  if (relative) {
+    return { year: relative.year, month: relative.month, day: relative.day };
+  }
+
   const parts = parseDateParts(dateStr);
   if (!parts) return null;
   let year = parts.hasYear ? parts.year! : now.year;
@@ -37,15 +172,142 @@ export function parseDate(dateStr: string, now: DateTime): { year: number; month
   return { year, month: parts.month, day: parts.day };
 }
 
-export function parseDateRange(
+function resolveRangeStart(token: string, now: DateTime): DateTime | null {
+  const relative = resolveRelativeDate(token, now);
+  if (relative) return relative;
+
+  const parts = parseDateParts(token.trim());
+  if (!parts) return null;
+  const zone = now.zoneName ?? 'UTC';
+  let startDate = DateTime.fromObject(
+    { year: parts.hasYear ? parts.year! : now.year, month: parts.month, day: parts.day },
+    { zone }
+  );
+  if (!parts.hasYear && startDate.isValid && startDate < now.startOf('day')) {
+    startDate = startDate.plus({ years: 1 });
+  }
+  return startDate.isValid ? startDate.startOf('day') : null;
+}
+
+function resolveRangeEnd(token: string, startDate: DateTime, now: DateTime): DateTime | null {
+  const relative = resolveRelativeDate(token, now);
+  if (relative) return relative;
+
+  const parts = parseDateParts(token.trim());
+  if (!parts) return null;
+  const zone = now.zoneName ?? 'UTC';
+  let endDate = DateTime.fromObject(
+    { year: parts.hasYear ? parts.year! : startDate.year, month: parts.month, day: parts.day },
+    { zone }
+  );
+  if (!parts.hasYear && endDate.isValid && endDate < startDate) {
+    endDate = endDate.plus({ years: 1 });
+  }
+  return endDate.isValid ? endDate.startOf('day') : null;
+}
+
+function resolveSingleDate(token: string, now: DateTime): DateTime | null {
+  const single = parseDate(token, now);
+  if (!single) return null;
+  const date = DateTime.fromObject(
+    { year: single.year, month: single.month, day: single.day },
+    { zone: now.zoneName ?? 'UTC' }
+  ).startOf('day');
+  return date.isValid ? date : null;
+}
+
+function parseDateList(input: string, now: DateTime): DateTime[] | null {
+  const tokens = input.split(/[,、]/).filter(Boolean);
+  if (tokens.length === 0) return null;
+  const dates: DateTime[] = [];
+  for (const token of tokens) {
+    const date = resolveSingleDate(token, now);
+    if (!date) return null;
+    dates.push(date);
+  }
+  return dates.sort((a, b) => a.toMillis() - b.toMillis());
+}
+
+function parseWeekdaySet(input: string): number[] {
+  return [...new Set(Array.from(input).map((char) => weekdayMap.get(char)!))];
+}
+
+export function restrictWeekdays(filter: DayFilter, allowed: number[]) {
+  const current = filter.weekdays ?? [1, 2, 3, 4, 5, 6, 7];
+  filter.weekdays = current.filter((weekday) => allowed.includes(weekday));
+}
+
+// Returns true when the token was a day modifier (平日のみ, 土日除外, 除外:3/4 ...) and was folded into the filter.
+function applyDayModifier(token: string, now: DateTime, filter: DayFilter): boolean {
+  if (/^平日(のみ|だけ)?$/.test(token) || /^(土日|週末)(除外|除く|なし)$/.test(token)) {
+    restrictWeekdays(filter, [1, 2, 3, 4, 5]);
+    return true;
+  }
+
+  const only = token.match(/^([月火水木金土日]+)(?:曜日?)?(のみ|だけ)$/);
+  if (only) {
+    restrictWeekdays(filter, parseWeekdaySet(only[1]));
+    return true;
+  }
+
+  const without = token.match(/^([月火水木金土日]+)(?:曜日?)?(除外|除く)$/);
+  if (without) {
+    const excluded = parseWeekdaySet(without[1]);
+    restrictWeekdays(
+      filter,
+      [1, 2, 3, 4, 5, 6, 7].filter((weekday) => !excluded.includes(weekday))
+    );
+    return true;
+  }
+
+  const excludedList =
+    token.match(/^(?:除外|除く)[:=]?(.+)$/)?.[1] ?? token.match(/^(.+?)を?(?:除外|除く)$/)?.[1];
+  if (excludedList) {
+    const dates = parseDateList(excludedList, now);
+    if (!dates) return false;
+    filter.excludedDates = [...(filter.excludedDates ?? []), ...dates.map((date) => date.toISODate()!)];
+    return true;
+  }
+
+  return false;
+}
+
+export function describeDayFilter(filter?: DayFilter): string {
+  if (!filter) return '';
+  const labels: string[] = [];
+  if (filter.includedDates) labels.push('指定日のみ');
+  if (filter.weekdays) {
+    const names = filter.weekdays.map((weekday) => [...weekdayMap.keys()][weekday - 1]).join('');
+    labels.push(names === '月火水木金' ? '平日のみ' : `${names}のみ`);
+  }
+  if (filter.excludedDates?.length) {
+    labels.push(`除外: ${filter.excludedDates.map((iso) => DateTime.fromISO(iso).toFormat('M/d')).join(',')}`);
+  }
+  return labels.join(' / ');
+}
+
+function parseBaseDateRange(
   dateStr: string,
   now: DateTime
-): { startDate: DateTime; endDate: DateTime } | null {
+): { startDate: DateTime; endDate: DateTime; filter?: DayFilter } | null {
+  const relativeRange = resolveRelativeDateRange(dateStr, now);
+  if (relativeRange) return relativeRange;
+
+  if (/[,、]/.test(dateStr)) {
+    const dates = parseDateList(dateStr, now);
+    if (!dates) return null;
+    return {
+      startDate: dates[0],
+      endDate: dates[dates.length - 1],
+      filter: { includedDates: dates.map((date) => date.toISODate()!) }
+    };
+  }
+
   let startToken: string | null = null;
   let endToken: string | null = null;
 
-  if (dateStr.includes('~')) {
-    const [start, end] = dateStr.split('~');
+  if (/[~〜～]/.test(dateStr)) {
+    const [start, end] = dateStr.split(/[~〜～]/);
     startToken = start;
     endToken = end;
   } else if (dateStr.includes('..')) {
@@ -61,66 +323,126 @@ export function parseDateRange(
   }
 
   if (startToken && endToken) {
-    const startParts = parseDateParts(startToken);
-    const endParts = parseDateParts(endToken);
-    if (!startParts || !endParts) return null;
-
-    let startYear = startParts.hasYear ? startParts.year! : now.year;
-    let startDate = DateTime.fromObject(
-      { year: startYear, month: startParts.month, day: startParts.day },
-      { zone: now.zoneName ?? 'UTC' }
-    );
-    if (!startParts.hasYear && startDate.isValid && startDate < now.startOf('day')) {
-      startYear += 1;
-      startDate = DateTime.fromObject(
-        { year: startYear, month: startParts.month, day: startParts.day },
-        { zone: now.zoneName ?? 'UTC' }
-      );
-    }
+    const startDate = resolveRangeStart(startToken, now);
+    if (!startDate) return null;
+    const endDate = resolveRangeEnd(endToken, startDate, now);
+    if (!endDate || endDate < startDate) return null;
+    return { startDate, endDate };
+  }
 
-    let endYear = endParts.hasYear ? endParts.year! : startYear;
-    let endDate = DateTime.fromObject(
-      { year: endYear, month: endParts.month, day: endParts.day },
-      { zone: now.zoneName ?? 'UTC' }
-    );
-    if (!endParts.hasYear && endDate.isValid && endDate < startDate) {
-      endYear += 1;
-      endDate = DateTime.fromObject(
-        { year: endYear, month: endParts.month, day: endParts.day },
-        { zone: now.zoneName ?? 'UTC' }
-      );
-    }
+  const date = resolveSingleDate(dateStr, now);
+  if (!date) return null;
+  return { startDate: date, endDate: date };
+}
+
+export function parseDateRange(
+  input: string,
+  now: DateTime
+): { startDate: DateTime; endDate: DateTime; filter?: DayFilter } | null {
+  // Keyword modifiers may be typed without a space, e.g. 3/1-3/31平日のみ.
+  const tokens = normalizeInput(input)
+    .replace(/(平日のみ|平日だけ|土日除外|土日除く|週末除外|週末除く|除外[:=]|除く[:=])/g, ' $1')
+    .split(/\s+/)
+    .filter(Boolean);
+
+  const modifiers: DayFilter = {};
+  const baseTokens = tokens.filter((token) => !applyDayModifier(token, now, modifiers));
+  const range = parseBaseDateRange(baseTokens.join(''), now);
+  if (!range) return null;
+  if (baseTokens.length === tokens.length) return range;
+
+  const filter: DayFilter = { ...range.filter, ...modifiers };
+  if (listDays(range.startDate, range.endDate, filter).length === 0) return null;
+  return { ...range, filter };
+}
 
-    if (!startDate.isValid || !endDate.isValid) return null;
-    return { startDate: startDate.startOf('day'), endDate: endDate.startOf('day') };
+type ParsedClock = { hour: number; minute: number; meridiem?: 'am' | 'pm' };
+
+function normalizeTimeToken(input: string) {
+  return normalizeInput(input).replace(/\s+/g, '').replace(/\./g, '').toLowerCase();
+}
+
+function parseClock(input: string, fallbackMeridiem?: 'am' | 'pm'): ParsedClock | null {
+  let token = normalizeTimeToken(input);
+  if (token === '正午') return { hour: 12, minute: 0 };
+
+  let meridiem: 'am' | 'pm' | undefined;
+  const prefix = token.match(/^(午前|午後|am|pm)/);
+  if (prefix) {
+    meridiem = prefix[1] === '午前' || prefix[1] === 'am' ? 'am' : 'pm';
+    token = token.slice(prefix[1].length);
   }
+  const suffix = token.match(/(am|pm)$/);
+  if (suffix) {
+    if (meridiem) return null;
+    meridiem = suffix[1] as 'am' | 'pm';
+    token = token.slice(0, -2);
+  }
+  const explicitMeridiem = meridiem;
+  meridiem = meridiem ?? fallbackMeridiem;
 
-  const single = parseDate(dateStr, now);
-  if (!single) return null;
-  const date = DateTime.fromObject(
-    { year: single.year, month: single.month, day: single.day },
-    { zone: now.zoneName ?? 'UTC' }
-  ).startOf('day');
-  if (!date.isValid) return null;
-  return { startDate: date, endDate: date };
+  let hour: number;
+  let minute = 0;
+  const colon = token.match(/^(\d{1,2}):(\d{2})$/);
+  const kanji = token.match(/^(\d{1,2})時(?:(半)|(\d{1,2})分)?$/);
+  const compact = token.match(/^(\d{1,2})(\d{2})$/);
+  const bare = token.match(/^(\d{1,2})$/);
+  if (colon) {
+    hour = Number(colon[1]);
+    minute = Number(colon[2]);
+  } else if (kanji) {
+    hour = Number(kanji[1]);
+    minute = kanji[2] ? 30 : kanji[3] ? Number(kanji[3]) : 0;
+  } else if (compact) {
+    hour = Number(compact[1]);
+    minute = Number(compact[2]);
+  } else if (bare && meridiem) {
+    // A bare number is only a time when am/pm (or 午前/午後) says so, e.g. 3pm.
+    hour = Number(bare[1]);
+  } else {
+    return null;
+  }
+
+  if (meridiem) {
+    if (hour > 12) return null;
+    if (meridiem === 'pm' && hour < 12) hour += 12;
+    if (meridiem === 'am' && hour === 12) hour = 0;
+  }
+  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
+  return { hour, minute, meridiem: explicitMeridiem };
 }
 
 export function parseTime(timeStr: string): { hour: number; minute: number } | null {
-  const match = timeStr.match(/^(\d{1,2}):(\d{2})$/);
-  if (!match) return null;
-  const hour = Number(match[1]);
-  const minute = Number(match[2]);
-  if (hour < 0 || hour > 23 || minute < 0 || minute > 59) return null;
-  return { hour, minute };
+  const parsed = parseClock(timeStr);
+  if (!parsed) return null;
+  return { hour: parsed.hour, minute: parsed.minute };
+}
+
+function toMinutes(time: { hour: number; minute: number }) {
+  return time.hour * 60 + time.minute;
 }
 
 export function parseTimeRange(rangeStr: string): { start: { hour: number; minute: number }; end: { hour: number; minute: number } } | null {
-  const match = rangeStr.match(/^(\d{1,2}:\d{2})-(\d{1,2}:\d{2})$/);
-  if (!match) return null;
-  const start = parseTime(match[1]);
-  const end = parseTime(match[2]);
+  const normalized = normalizeInput(rangeStr).replace(/まで$/, '');
+  const parts = normalized.split(/\s*(?:-|~|〜|から)\s*/);
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null;
+
+  let start = parseClock(parts[0]);
+  let end = parseClock(parts[1]);
+
+  // 1-3pm: the start borrows the end's meridiem.
+  if (!start && end?.meridiem) {
+    start = parseClock(parts[0], end.meridiem);
+  }
+  // 午後1時〜3時: the end borrows the start's meridiem when it would otherwise precede the start.
+  if (start?.meridiem && end && !end.meridiem && toMinutes(end) <= toMinutes(start)) {
+    end = parseClock(parts[1], start.meridiem) ?? end;
+  }
   if (!start || !end) return null;
-  return { start, end };
+  return {
+    start: { hour: start.hour, minute: start.minute },
+    end: { hour: end.hour, minute: end.minute }
+  };
 }
 
 export function isValidTimeRange(range: { start: { hour: number; minute: number }; end: { hour: number; minute: number } }): boolean {
@@ -137,13 +459,97 @@ export function formatTimeRange(range: { start: { hour: number; minute: number }
   return `${formatTimePart(range.start)}-${formatTimePart(range.end)}`;
 }
 
-export function parseDuration(durationStr: string): number | null {
-  const plain = durationStr.match(/^(\d+)$/);
-  if (plain) return Number(plain[1]);
+export function normalizePresetName(name: string) {
+  return normalizeInput(name).replace(/\s+/g, '').toLowerCase();
+}
+
+export function parseDuration(durationStr: string, presets: Record<string, number> = {}): number | null {
+  const token = normalizePresetName(durationStr);
+  if (!token) return null;
+
+  // Own keys only, so names like "constructor" do not resolve to Object.prototype members.
+  const preset = Object.prototype.hasOwnProperty.call(presets, token) ? presets[token] : undefined;
+  if (preset) return preset;
+
+  const plain = token.match(/^(\d+)$/);
+  if (plain) return Number(plain[1]) || null;
+
+  if (token === '半日') return 240;
+  if (token === '終日' || token === '1日') return 480;
+
+  const clock = token.match(/^(\d{1,2}):(\d{2})$/);
+  if (clock) return Number(clock[1]) * 60 + Number(clock[2]) || null;
+
+  const match = token.match(
+    /^(?:(\d+(?:\.\d+)?)(時間(半)?|h|hr|hrs|hour|hours))?(?:(\d+)(分|m|min|mins|minute|minutes))?$/
+  );
+  if (!match || (!match[1] && !match[4])) return null;
+  const hours = match[1] ? Number(match[1]) + (match[3] ? 0.5 : 0) : 0;
+  const minutes = match[4] ? Number(match[4]) : 0;
+  const total = Math.round(hours * 60 + minutes);
+  return total > 0 ? total : null;
+}
+
+export function parseBuffer(input: string): { before: number; after: number } | null {
+  const parts = normalizeInput(input).split(/[\/,、\s]+/).filter(Boolean);
+  if (parts.length === 0 || parts.length > 2) return null;
+  const values: number[] = [];
+  for (const part of parts) {
+    const value = /^\d+$/.test(part) ? Number(part) : parseDuration(part);
+    if (value === null) return null;
+    values.push(value);
+  }
+  return { before: values[0], after: values[1] ?? values[0] };
+}
+
+export type ReminderMethod = 'popup' | 'email';
+export type Reminder = { method: ReminderMethod; minutes: number };
+
+// Google Calendar accepts at most 5 reminder overrides, up to 4 weeks before the start.
+const MAX_REMINDERS = 5;
+const MAX_REMINDER_MINUTES = 40320;
+
+function parseReminderOffset(token: string): number | null {
+  if (token === '0' || token === '開始時') return 0;
+  const days = token.match(/^(\d+)(日|d|day|days)$/);
+  if (days) return Number(days[1]) * 24 * 60;
+  const weeks = token.match(/^(\d+)(週間?|w|week|weeks)$/);
+  if (weeks) return Number(weeks[1]) * 7 * 24 * 60;
+  return parseDuration(token);
+}
+
+// "10分前, メール 1日前" -> popup 10 minutes and email 1440 minutes before the start.
+export function parseReminders(input: string): Reminder[] | null {
+  const entries = normalizeInput(input).split(/[,、\n]+/).map((entry) => entry.trim()).filter(Boolean);
+  if (entries.length === 0 || entries.length > MAX_REMINDERS) return null;
+  const reminders: Reminder[] = [];
+  for (const entry of entries) {
+    let method: ReminderMethod = 'popup';
+    let rest = entry;
+    const methodMatch = rest.match(/(メール|email|mail|ポップアップ|通知|popup)/i);
+    if (methodMatch) {
+      method = /メール|mail/i.test(methodMatch[1]) ? 'email' : 'popup';
+      rest = rest.replace(methodMatch[1], '');
+    }
+    const minutes = parseReminderOffset(rest.replace(/\s+/g, '').replace(/前$/, '').toLowerCase());
+    if (minutes === null || minutes > MAX_REMINDER_MINUTES) return null;
+    reminders.push({ method, minutes });
+  }
+  return reminders;
+}
 
-  const match = durationStr.match(/^(\d+)(m|h)$/i);
-  if (!match) return null;
-  const value = Number(match[1]);
-  const unit = match[2].toLowerCase();
-  return unit === 'h' ? value * 60 : value;
+export function describeReminders(reminders: Reminder[]): string {
+  return reminders
+    .map((reminder) => {
+      const offset =
+        reminder.minutes === 0
+          ? '開始時'
+          : reminder.minutes % 1440 === 0
+            ? `${reminder.minutes / 1440}日前`
+            : reminder.minutes % 60 === 0
+              ? `${reminder.minutes / 60}時間前`
+              : `${reminder.minutes}分前`;
+      return `${reminder.method === 'email' ? 'メール' : '通知'} ${offset}`;
+    })
+    .join(', ');
 }
@@ -0,0 +1,164 @@
+import { DateTime } from 'luxon';
+import { parseDate } from './parse';
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'biweekly' | 'weekdays' | 'monthly_weekday';
+
+export type RecurrenceRule = {
+  frequency: RecurrenceFrequency;
+  count?: number;
+  untilDate?: string;
+};
+
+export const recurrenceOptions: Array<{ label: string; value: RecurrenceFrequency }> = [
+  { label: '毎日', value: 'daily' },
+  { label: '毎週', value: 'weekly' },
+  { label: '隔週', value: 'biweekly' },
+  { label: '平日 (月〜金)', value: 'weekdays' },
+  { label: '毎月 (第N曜日)', value: 'monthly_weekday' }
+];
+
+const byDayCodes = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+const weekdayLabels = ['月', '火', '水', '木', '金', '土', '日'];
+const MAX_COUNT = 730;
+
+export function isRecurrenceFrequency(value?: string): value is RecurrenceFrequency {
+  return recurrenceOptions.some((opt) => opt.value === value);
+}
+
+export function parseRecurrenceEnd(
+  input: string | undefined,
+  now: DateTime
+): { count?: number; untilDate?: string } | null {
+  const trimmed = input?.normalize('NFKC').trim() ?? '';
+  if (!trimmed) return {};
+
+  const count = trimmed.match(/^(\d+)\s*(回|times)?$/i);
+  if (count) {
+    const value = Number(count[1]);
+    if (value < 1 || value > MAX_COUNT) return null;
+    return { count: value };
+  }
+
+  const until = parseDate(trimmed.replace(/まで$/, ''), now);
+  if (!until) return null;
+  const untilDate = DateTime.fromObject(until, { zone: now.zoneName ?? 'UTC' });
+  if (!untilDate.isValid) return null;
+  return { untilDate: untilDate.toISODate()! };
+}
+
+// Weeks are counted from the start of the month; the fifth week is treated as "last".
+function monthlyOrdinal(start: DateTime) {
+  const ordinal = Math.ceil(start.day / 7);
+  return ordinal >= 5 ? -1 : ordinal;
+}
+
+function nthWeekdayOfMonth(month: DateTime, weekday: number, ordinal: number): DateTime | null {
+  if (ordinal === -1) {
+    const last = month.endOf('month').startOf('day');
+    return last.minus({ days: (last.weekday - weekday + 7) % 7 });
+  }
+  const first = month.startOf('month');
+  const candidate = first.plus({ days: (weekday - first.weekday + 7) % 7 + (ordinal - 1) * 7 });
+  return candidate.month === first.month ? candidate : null;
+}
+
+// Google always creates an occurrence at DTSTART, even when BYDAY excludes that day,
+// so a series limited to certain weekdays must also start on one of them.
+export function recurrenceWeekdays(frequency: RecurrenceFrequency | undefined): number[] | undefined {
+  return frequency === 'weekdays' ? [1, 2, 3, 4, 5] : undefined;
+}
+
+export function buildRRule(rule: RecurrenceRule, start: DateTime): string {
+  const parts: string[] = [];
+  switch (rule.frequency) {
+    case 'daily':
+      parts.push('FREQ=DAILY');
+      break;
+    case 'weekly':
+      parts.push('FREQ=WEEKLY');
+      break;
+    case 'biweekly':
+      parts.push('FREQ=WEEKLY', 'INTERVAL=2');
+      break;
+    case 'weekdays':
+      parts.push('FREQ=WEEKLY', 'BYDAY=MO,TU,WE,TH,FR');
+      break;
+    case 'monthly_weekday':
+      parts.push('FREQ=MONTHLY', `BYDAY=${monthlyOrdinal(start)}${byDayCodes[start.weekday - 1]}`);
+      break;
+  }
+
+  if (rule.count) {
+    parts.push(`COUNT=${rule.count}`);
+  } else if (rule.untilDate) {
+    // UNTIL must be UTC when DTSTART carries a time zone.
+    const until = DateTime.fromISO(rule.untilDate, { zone: start.zone }).endOf('day').toUTC();
+    parts.push(`UNTIL=${until.toFormat("yyyyLLdd'T'HHmmss'Z'")}`);
+  }
+
+  return `RRULE:${parts.join(';')}`;
+}
+
+export function expandOccurrences(rule: RecurrenceRule, start: DateTime, limit: number): DateTime[] {
+  const occurrences: DateTime[] = [];
+  const max = rule.count ? Math.min(rule.count, limit) : limit;
+  const until = rule.untilDate ? DateTime.fromISO(rule.untilDate, { zone: start.zone }).endOf('day') : null;
+  const time = { hour: start.hour, minute: start.minute, second: 0, millisecond: 0 };
+  const ordinal = monthlyOrdinal(start);
+
+  // Bounded so that rules which never match cannot loop forever.
+  for (let step = 0; occurrences.length < max && step < MAX_COUNT * 2; step += 1) {
+    let candidate: DateTime | null;
+    switch (rule.frequency) {
+      case 'daily':
+      case 'weekdays':
+        candidate = start.plus({ days: step });
+        break;
+      case 'weekly':
+        candidate = start.plus({ weeks: step });
+        break;
+      case 'biweekly':
+        candidate = start.plus({ weeks: step * 2 });
+        break;
+      case 'monthly_weekday': {
+        const day = nthWeekdayOfMonth(start.plus({ months: step }), start.weekday, ordinal);
+        candidate = day ? day.set(time) : null;
+        break;
+      }
+    }
+    if (!candidate) continue;
+    if (until && candidate > until) break;
+    if (rule.frequency === 'weekdays' && candidate.weekday > 5) continue;
+    occurrences.push(candidate);
+  }
+
+  return occurrences;
+}
+
+export function describeRecurrence(rule: RecurrenceRule, start: DateTime): string {
+  const weekday = weekdayLabels[start.weekday - 1];
+  let label: string;
+  switch (rule.frequency) {
+    case 'daily':
+      label = '毎日';
+      break;
+    case 'weekly':
+      label = `毎週${weekday}曜`;
+      break;
+    case 'biweekly':
+      label = `隔週${weekday}曜`;
+      break;
+    case 'weekdays':
+      label = '平日 (月〜金)';
+      break;
+    case 'monthly_weekday': {
+      const ordinal = monthlyOrdinal(start);
+      label = `毎月${ordinal === -1 ? '最終' : `第${ordinal}`}${weekday}曜`;
+      break;
+    }
+  }
+
+  if (rule.count) return `${label} / ${rule.count}回`;
+  if (rule.untilDate) return `${label} / ${DateTime.fromISO(rule.untilDate).toFormat('yyyy-LL-dd')}まで`;
+  return `${label} / 終了日なし`;
+}
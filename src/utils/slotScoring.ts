@@ -0,0 +1,110 @@
+import { DateTime } from 'luxon';
+import { buildFreeIntervals, buildSlotStarts, listUnavailableUsers, mergeBusyIntervals } from './intervals';
+
+export type PreferredTime = 'any' | 'morning' | 'afternoon';
+
+export type SlotCandidate = { start: DateTime; end: DateTime; score: number; unavailable: string[] };
+
+export type SlotScoringOptions = {
+  now: DateTime;
+  durationMinutes: number;
+  granularityMinutes?: number;
+  preferredTime?: PreferredTime;
+  limit?: number;
+  optionalBusy?: Map<string, Array<{ start: DateTime; end: DateTime }>>;
+};
+
+export const preferredTimeOptions: Array<{ label: string; value: PreferredTime }> = [
+  { label: '指定なし', value: 'any' },
+  { label: '午前', value: 'morning' },
+  { label: '午後', value: 'afternoon' }
+];
+
+const WEIGHTS = { timeOfDay: 0.35, fragmentation: 0.3, proximity: 0.2 };
+// Subtracted once per candidate already picked on the same day, so results spread across days.
+const SAME_DAY_PENALTY = 0.25;
+// Each additional optional attendee who can join outweighs every other factor combined.
+const QUORUM_WEIGHT = 10;
+// Leftover gaps shorter than this are too small to book anything into.
+const MIN_USEFUL_GAP_MINUTES = 30;
+
+function timeOfDayScore(start: DateTime, end: DateTime, preferredTime: PreferredTime) {
+  if (preferredTime === 'any') return 0.5;
+  const center = preferredTime === 'morning' ? 10 * 60 : 14 * 60 + 30;
+  const middle = start.hour * 60 + start.minute + end.diff(start, 'minutes').minutes / 2;
+  return Math.max(0, 1 - Math.abs(middle - center) / (6 * 60));
+}
+
+function gapScore(gapMinutes: number) {
+  if (gapMinutes <= 0) return 1;
+  if (gapMinutes < MIN_USEFUL_GAP_MINUTES) return 0;
+  return 0.5;
+}
+
+export function rankCandidateSlots(
+  days: DateTime[],
+  timeRange: { start: { hour: number; minute: number }; end: { hour: number; minute: number } },
+  busy: Array<{ start: DateTime; end: DateTime }>,
+  options: SlotScoringOptions
+): SlotCandidate[] {
+  const { now, durationMinutes } = options;
+  const granularityMinutes = options.granularityMinutes ?? 30;
+  const preferredTime = options.preferredTime ?? 'any';
+  const limit = options.limit ?? 5;
+  const optionalBusy = options.optionalBusy ?? new Map<string, Array<{ start: DateTime; end: DateTime }>>();
+  const lastDay = days[days.length - 1];
+  const horizonDays = lastDay ? Math.max(1, lastDay.diff(now.startOf('day'), 'days').days) : 1;
+
+  const scored: SlotCandidate[] = [];
+  for (const day of days) {
+    const dayStart = day.set({ hour: timeRange.start.hour, minute: timeRange.start.minute });
+    const dayEnd = day.set({ hour: timeRange.end.hour, minute: timeRange.end.minute });
+    if (dayEnd <= dayStart) continue;
+
+    const freeIntervals = buildFreeIntervals(dayStart, dayEnd, mergeBusyIntervals(busy, dayStart, dayEnd));
+    for (const interval of freeIntervals) {
+      for (const start of buildSlotStarts([interval], durationMinutes, granularityMinutes)) {
+        if (start <= now) continue;
+        const end = start.plus({ minutes: durationMinutes });
+        const fragmentation =
+          (gapScore(start.diff(interval.start, 'minutes').minutes) +
+            gapScore(interval.end.diff(end, 'minutes').minutes)) /
+          2;
+        const proximity = 1 - Math.min(1, start.diff(now, 'days').days / horizonDays);
+        const score =
+          WEIGHTS.timeOfDay * timeOfDayScore(start, end, preferredTime) +
+          WEIGHTS.fragmentation * fragmentation +
+          WEIGHTS.proximity * proximity;
+        const unavailable = listUnavailableUsers({ start, end }, optionalBusy);
+        scored.push({ start, end, score, unavailable });
+      }
+    }
+  }
+
+  // Greedy pick: each pick makes further slots on the same day less attractive.
+  const picked: SlotCandidate[] = [];
+  const perDay = new Map<string, number>();
+  const remaining = [...scored];
+  while (picked.length < limit && remaining.length > 0) {
+    let bestIndex = 0;
+    let bestScore = -Infinity;
+    remaining.forEach((candidate, index) => {
+      const adjusted =
+        candidate.score -
+        QUORUM_WEIGHT * candidate.unavailable.length -
+        SAME_DAY_PENALTY * (perDay.get(candidate.start.toISODate()!) ?? 0);
+      if (adjusted > bestScore || (adjusted === bestScore && candidate.start < remaining[bestIndex].start)) {
+        bestScore = adjusted;
+        bestIndex = index;
+      }
+    });
+    const [best] = remaining.splice(bestIndex, 1);
+    // Overlapping slots are alternatives to each other; keep only the better one.
+    if (picked.some((item) => item.start < best.end && item.end > best.start)) continue;
+    const dayKey = best.start.toISODate()!;
+    perDay.set(dayKey, (perDay.get(dayKey) ?? 0) + 1);
+    picked.push({ ...best, score: bestScore + QUORUM_WEIGHT * best.unavailable.length });
+  }
+
+  return picked;
+}
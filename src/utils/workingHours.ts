@@ -0,0 +1,52 @@
+import { DateTime } from 'luxon';
+import { formatTimeRange } from './parse';
+
+export type TimeRange = { start: { hour: number; minute: number }; end: { hour: number; minute: number } };
+
+// Keyed by ISO weekday ("1" = Monday). null marks a day off; a missing key means no restriction.
+export type WeeklyWorkingHours = Partial<Record<string, TimeRange | null>>;
+
+const weekdayLabels = ['月', '火', '水', '木', '金', '土', '日'];
+
+export function describeWorkingHours(hours?: WeeklyWorkingHours): string[] {
+  if (!hours || Object.keys(hours).length === 0) return ['勤務時間: 制限なし'];
+  return weekdayLabels.map((label, index) => {
+    const range = hours[String(index + 1)];
+    if (range === undefined) return `${label}: 制限なし`;
+    if (range === null) return `${label}: 休み`;
+    return `${label}: ${formatTimeRange(range)}`;
+  });
+}
+
+// Time outside the user's working hours, expressed as busy intervals in the search zone.
+export function buildOffHoursIntervals(
+  hours: WeeklyWorkingHours | undefined,
+  userZone: string,
+  rangeStart: DateTime,
+  rangeEnd: DateTime
+): Array<{ start: DateTime; end: DateTime }> {
+  if (!hours || Object.keys(hours).length === 0) return [];
+  const searchZone = rangeStart.zone;
+  const intervals: Array<{ start: DateTime; end: DateTime }> = [];
+  let cursor = rangeStart.setZone(userZone).startOf('day');
+  const last = rangeEnd.setZone(userZone).startOf('day');
+
+  while (cursor <= last) {
+    const range = hours[String(cursor.weekday)];
+    const dayEnd = cursor.plus({ days: 1 });
+    if (range === null) {
+      intervals.push({ start: cursor, end: dayEnd });
+    } else if (range) {
+      const workStart = cursor.set({ hour: range.start.hour, minute: range.start.minute });
+      const workEnd = cursor.set({ hour: range.end.hour, minute: range.end.minute });
+      if (workStart > cursor) intervals.push({ start: cursor, end: workStart });
+      if (workEnd < dayEnd) intervals.push({ start: workEnd, end: dayEnd });
+    }
+    cursor = dayEnd;
+  }
+
+  return intervals.map((interval) => ({
+    start: interval.start.setZone(searchZone),
+    end: interval.end.setZone(searchZone)
+  }));
+}